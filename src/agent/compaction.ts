@@ -0,0 +1,162 @@
+import { Content, Part } from '@google/genai';
+
+/** Marks the user message that replaces a summarized span of history. */
+export const SUMMARY_MARKER = '[Summary of earlier conversation]';
+/** Model reply that follows a summary message between turns. */
+export const SUMMARY_ACK = 'Understood. I will continue from this summary.';
+
+/**
+ * A run of messages that must be kept or summarized together: a user prompt,
+ * a model reply, or a model function call with the response(s) to it.
+ */
+interface Unit {
+  start: number;
+  end: number;
+  /** True for a user message with text, which starts a new turn. */
+  turnStart: boolean;
+}
+
+function isFunctionResponse(msg: Content): boolean {
+  return (msg.parts ?? []).some(part => part.functionResponse);
+}
+
+function hasFunctionCall(msg: Content): boolean {
+  return (msg.parts ?? []).some(part => part.functionCall);
+}
+
+function isUserPrompt(msg: Content): boolean {
+  return msg.role === 'user' && !isFunctionResponse(msg);
+}
+
+function toUnits(contents: Content[]): Unit[] {
+  const units: Unit[] = [];
+  let i = 0;
+  while (i < contents.length) {
+    const start = i;
+    const msg = contents[i++];
+    if (msg.role === 'model' && hasFunctionCall(msg)) {
+      // A function call is never separated from its responses.
+      while (i < contents.length && isFunctionResponse(contents[i])) {
+        i++;
+      }
+    }
+    units.push({ start, end: i, turnStart: isUserPrompt(msg) });
+  }
+  return units;
+}
+
+export interface CompactionOptions {
+  /** Most recent turns kept verbatim. */
+  keepTurns: number;
+  /** Most recent tool steps kept when a single turn is too large. */
+  keepSteps: number;
+}
+
+export interface CompactionPlan {
+  /** Messages kept unchanged before the span. */
+  head: Content[];
+  /** Messages to summarize. */
+  span: Content[];
+  /** Messages kept unchanged after the span. */
+  tail: Content[];
+  /** Whether the span lies within the current turn rather than before it. */
+  withinTurn: boolean;
+}
+
+/**
+ * Decide which part of the history to summarize. Whole turns before the last
+ * `keepTurns` are summarized; if there are none, older tool steps of the
+ * current turn are, keeping its prompt and the last `keepSteps` steps. Spans
+ * only ever contain whole units, so function calls stay next to their
+ * responses and kept model turns keep their thought signatures.
+ */
+export function planCompaction(contents: Content[], options: CompactionOptions): CompactionPlan | null {
+  const units = toUnits(contents);
+  const turnStarts = units.filter(unit => unit.turnStart);
+
+  if (turnStarts.length > options.keepTurns) {
+    const boundary = turnStarts[turnStarts.length - options.keepTurns].start;
+    const span = contents.slice(0, boundary);
+    // A lone earlier summary is not worth summarizing again.
+    if (span.length > 2 || !isSummary(span[0])) {
+      return { head: [], span, tail: contents.slice(boundary), withinTurn: false };
+    }
+  }
+
+  const lastTurn = turnStarts[turnStarts.length - 1];
+  if (!lastTurn) {
+    return null;
+  }
+  const steps = units.filter(unit => unit.start > lastTurn.start);
+  if (steps.length <= options.keepSteps) {
+    return null;
+  }
+  const spanStart = steps[0].start;
+  const spanEnd = steps[steps.length - options.keepSteps].start;
+  // A summary from an earlier compaction of this turn is folded into the new one.
+  const previous = (contents[lastTurn.start].parts ?? []).filter(isSummaryPart);
+  return {
+    head: contents.slice(0, spanStart),
+    span: [
+      ...(previous.length > 0 ? [{ role: 'user', parts: previous }] : []),
+      ...contents.slice(spanStart, spanEnd),
+    ],
+    tail: contents.slice(spanEnd),
+    withinTurn: true,
+  };
+}
+
+function isSummaryPart(part: Part): boolean {
+  return Boolean(part.text?.startsWith(SUMMARY_MARKER));
+}
+
+export function isSummary(msg: Content | undefined): boolean {
+  const first = msg?.parts?.[0];
+  return msg?.role === 'user' && first !== undefined && isSummaryPart(first);
+}
+
+/**
+ * Replace the planned span with a summary. Earlier turns become a summary
+ * message and a short model acknowledgement, so roles keep alternating;
+ * steps within the current turn are summarized onto the turn's prompt.
+ */
+export function applyCompaction(plan: CompactionPlan, summary: string): Content[] {
+  const summaryText = `${SUMMARY_MARKER}\n${summary}`;
+  if (!plan.withinTurn) {
+    return [
+      { role: 'user', parts: [{ text: summaryText }] },
+      { role: 'model', parts: [{ text: SUMMARY_ACK }] },
+      ...plan.tail,
+    ];
+  }
+  const head = [...plan.head];
+  const prompt = head[head.length - 1];
+  const promptParts = (prompt.parts ?? []).filter(part => !isSummaryPart(part));
+  head[head.length - 1] = { ...prompt, parts: [...promptParts, { text: summaryText }] };
+  return [...head, ...plan.tail];
+}
+
+/** Render contents as plain text for the summarization prompt. */
+export function transcriptText(contents: Content[], maxResultChars: number): string {
+  const lines: string[] = [];
+  for (const msg of contents) {
+    for (const part of msg.parts ?? []) {
+      if (part.thought) {
+        continue;
+      }
+      if (part.text) {
+        lines.push(`${msg.role === 'model' ? 'Assistant' : 'User'}: ${part.text}`);
+      }
+      if (part.functionCall) {
+        lines.push(`Tool call ${part.functionCall.name}: ${JSON.stringify(part.functionCall.args ?? {})}`);
+      }
+      if (part.functionResponse) {
+        const response = JSON.stringify(part.functionResponse.response ?? {});
+        const clipped =
+          response.length > maxResultChars ? `${response.slice(0, maxResultChars)}... [truncated]` : response;
+        lines.push(`Tool result ${part.functionResponse.name}: ${clipped}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
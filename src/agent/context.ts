@@ -0,0 +1,227 @@
+import { Content } from '@google/genai';
+import { COMPACTION_THRESHOLD, COUNT_TOKENS_TIMEOUT_MS } from '../types.js';
+import { ModelProvider, UsageMetadata } from './provider.js';
+import { withTimeout } from './retry.js';
+
+/** Input token limits per model. Versioned names match by their longest listed prefix. */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gemini-3-pro-preview': 1_048_576,
+  'gemini-3-flash-preview': 1_048_576,
+  'gemini-2.5-pro': 1_048_576,
+  'gemini-2.5-flash': 1_048_576,
+  'gemini-2.5-flash-lite': 1_048_576,
+  'gemini-2.0-flash': 1_048_576,
+  'gemini-2.0-flash-lite': 1_048_576,
+  'gemini-1.5-pro': 2_097_152,
+  'gemini-1.5-flash': 1_048_576,
+};
+
+/** Used for models missing from the table. */
+const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/** Rough characters per token, for estimates when no exact count is available. */
+const CHARS_PER_TOKEN = 4;
+
+export function getContextWindow(model: string): number {
+  const name = model.replace(/^models\//, '');
+  if (MODEL_CONTEXT_WINDOWS[name]) {
+    return MODEL_CONTEXT_WINDOWS[name];
+  }
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Token count above which history is compacted before the next request. */
+export function getCompactionThreshold(model: string): number {
+  return Math.floor(getContextWindow(model) * COMPACTION_THRESHOLD);
+}
+
+export function countContentChars(contents: Content[]): number {
+  let totalChars = 0;
+  for (const msg of contents) {
+    for (const part of msg.parts ?? []) {
+      if (part.text) {
+        totalChars += part.text.length;
+      }
+      if (part.functionCall) {
+        totalChars += JSON.stringify(part.functionCall).length;
+      }
+      if (part.functionResponse) {
+        totalChars += JSON.stringify(part.functionResponse).length;
+      }
+    }
+  }
+  return totalChars;
+}
+
+export function estimateTokens(contents: Content[]): number {
+  return Math.ceil(countContentChars(contents) / CHARS_PER_TOKEN);
+}
+
+export interface TokenCount {
+  tokens: number;
+  /** True when the count is a character-based estimate rather than the model's own count. */
+  estimated: boolean;
+}
+
+/**
+ * Count tokens with the provider, falling back to an estimate when it cannot
+ * or takes longer than COUNT_TOKENS_TIMEOUT_MS. Aborting `signal` stops the
+ * request and rejects with the signal's reason.
+ */
+export async function countTokens(
+  provider: ModelProvider,
+  model: string,
+  contents: Content[],
+  signal?: AbortSignal
+): Promise<TokenCount> {
+  if (contents.length === 0) {
+    return { tokens: 0, estimated: false };
+  }
+  if (provider.countTokens) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    try {
+      const response = await withTimeout(
+        provider.countTokens({ model, contents, config: { abortSignal: controller.signal } }),
+        COUNT_TOKENS_TIMEOUT_MS,
+        `Token count timed out after ${COUNT_TOKENS_TIMEOUT_MS / 1000} seconds`,
+        controller
+      );
+      if (response.totalTokens !== undefined) {
+        return { tokens: response.totalTokens, estimated: false };
+      }
+    } catch (err) {
+      if (signal?.aborted) {
+        throw err;
+      }
+      // Fall through to the estimate.
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+  return { tokens: estimateTokens(contents), estimated: true };
+}
+
+export type ContextCategory = 'system' | 'user' | 'model' | 'toolCalls' | 'toolResults';
+
+export interface ContextBreakdown {
+  model: string;
+  window: number;
+  threshold: number;
+  total: number;
+  estimated: boolean;
+  categories: Record<ContextCategory, number>;
+}
+
+/**
+ * Split history into one list of contents per category, keeping roles so each
+ * list can be counted on its own. Thoughts count towards model output.
+ */
+export function splitContentsByCategory(contents: Content[]): Record<Exclude<ContextCategory, 'system'>, Content[]> {
+  const result: Record<Exclude<ContextCategory, 'system'>, Content[]> = {
+    user: [],
+    model: [],
+    toolCalls: [],
+    toolResults: [],
+  };
+  for (const msg of contents) {
+    const role = msg.role ?? 'user';
+    for (const part of msg.parts ?? []) {
+      let category: Exclude<ContextCategory, 'system'>;
+      if (part.functionCall) {
+        category = 'toolCalls';
+      } else if (part.functionResponse) {
+        category = 'toolResults';
+      } else {
+        category = role === 'model' ? 'model' : 'user';
+      }
+      result[category].push({ role, parts: [part] });
+    }
+  }
+  return result;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Model requests the usage was collected from. */
+  requests: number;
+}
+
+function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: UsageMetadata): void {
+  const prompt = usage.promptTokenCount ?? 0;
+  const output = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  total.promptTokens += prompt;
+  total.outputTokens += output;
+  total.totalTokens += usage.totalTokenCount ?? prompt + output;
+  total.requests++;
+}
+
+/**
+ * Tracks token usage reported by the model, per turn and per session, and the
+ * context size it implies. After each response the prompt plus response tokens
+ * are the exact size of the history up to that response; messages added since
+ * are estimated until the next response arrives.
+ */
+export class ContextTracker {
+  private baselines = new Map<string, { messages: number; tokens: number }>();
+  private sessions = new Map<string, TokenUsage>();
+  private turn: TokenUsage = emptyUsage();
+
+  startTurn(): void {
+    this.turn = emptyUsage();
+  }
+
+  /** Record the usage of a response that becomes message number `messages` of the session. */
+  record(sessionId: string, messages: number, usage: UsageMetadata): void {
+    addUsage(this.turn, usage);
+    const session = this.sessions.get(sessionId) ?? emptyUsage();
+    addUsage(session, usage);
+    this.sessions.set(sessionId, session);
+
+    if (usage.promptTokenCount !== undefined) {
+      this.baselines.set(sessionId, {
+        messages,
+        tokens: usage.promptTokenCount + (usage.candidatesTokenCount ?? 0),
+      });
+    }
+  }
+
+  /** Forget the context baseline, e.g. after the history was rewritten. */
+  invalidate(sessionId: string): void {
+    this.baselines.delete(sessionId);
+  }
+
+  /**
+   * Context size of `contents` (including the system prompt) from the last
+   * recorded usage, or null when there is no usable baseline.
+   */
+  estimate(sessionId: string, contents: Content[]): number | null {
+    const baseline = this.baselines.get(sessionId);
+    if (!baseline || contents.length < baseline.messages) {
+      return null;
+    }
+    return baseline.tokens + estimateTokens(contents.slice(baseline.messages));
+  }
+
+  getTurnUsage(): TokenUsage {
+    return { ...this.turn };
+  }
+
+  getSessionUsage(sessionId: string): TokenUsage {
+    return { ...(this.sessions.get(sessionId) ?? emptyUsage()) };
+  }
+}
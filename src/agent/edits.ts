@@ -0,0 +1,186 @@
+export interface EditSpec {
+  old_string: string;
+  new_string: string;
+  /** Replace every occurrence instead of requiring a unique match. */
+  replace_all?: boolean;
+  /** Fail unless old_string occurs exactly this many times; all are replaced. */
+  expected_occurrences?: number;
+}
+
+export type EditOutcome = { content: string; error?: undefined } | { content?: undefined; error: string };
+
+const MIN_FUZZY_SIMILARITY = 0.5;
+const MAX_LISTED_LINES = 10;
+
+function lineNumberAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (content.charCodeAt(i) === 10) {
+      line++;
+    }
+  }
+  return line;
+}
+
+function findOccurrences(content: string, search: string): number[] {
+  const indices: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    indices.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return indices;
+}
+
+function formatLines(lines: number[]): string {
+  const listed = lines.slice(0, MAX_LISTED_LINES).join(', ');
+  return lines.length > MAX_LISTED_LINES ? `${listed}, ...` : listed;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const normalized = text.trim().replace(/\s+/g, ' ');
+  const result = new Map<string, number>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const gram = normalized.slice(i, i + 2);
+    result.set(gram, (result.get(gram) ?? 0) + 1);
+  }
+  return result;
+}
+
+/** Dice coefficient over character bigrams, ignoring surrounding whitespace. */
+function lineSimilarity(a: Map<string, number>, b: Map<string, number>, aText: string, bText: string): number {
+  if (aText.trim() === bText.trim()) {
+    return 1;
+  }
+  let total = 0;
+  let shared = 0;
+  for (const count of a.values()) {
+    total += count;
+  }
+  for (const [gram, count] of b) {
+    total += count;
+    shared += Math.min(count, a.get(gram) ?? 0);
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Find the block of lines in `content` that most resembles `search`, for
+ * pointing the model at what it probably meant when there is no exact match.
+ */
+function findClosestMatch(
+  content: string,
+  search: string
+): { line: number; text: string; similarity: number } | null {
+  const fileLines = content.split('\n');
+  const searchLines = search.replace(/\n$/, '').split('\n');
+  const windowSize = Math.min(searchLines.length, fileLines.length);
+  const fileGrams = fileLines.map(bigrams);
+  const searchGrams = searchLines.map(bigrams);
+
+  let best: { line: number; similarity: number } | null = null;
+  for (let start = 0; start + windowSize <= fileLines.length; start++) {
+    let score = 0;
+    for (let i = 0; i < windowSize; i++) {
+      score += lineSimilarity(searchGrams[i], fileGrams[start + i], searchLines[i], fileLines[start + i]);
+    }
+    const similarity = score / searchLines.length;
+    if (!best || similarity > best.similarity) {
+      best = { line: start + 1, similarity };
+    }
+  }
+
+  if (!best || best.similarity < MIN_FUZZY_SIMILARITY) {
+    return null;
+  }
+  const text = fileLines
+    .slice(best.line - 1, best.line - 1 + windowSize)
+    .map((line, i) => `${best!.line + i}: ${line}`)
+    .join('\n');
+  return { line: best.line, text, similarity: best.similarity };
+}
+
+function notFoundError(content: string, search: string): string {
+  const preview = search.length > 50 ? `${search.slice(0, 50)}...` : search;
+  const closest = findClosestMatch(content, search);
+  if (!closest) {
+    return `String not found in file: "${preview}"`;
+  }
+  const percent = Math.round(closest.similarity * 100);
+  return (
+    `String not found in file: "${preview}"\n` +
+    `Closest match (${percent}% similar) at line ${closest.line}:\n${closest.text}`
+  );
+}
+
+/**
+ * Replace `old_string` with `new_string`. Fails with line numbers when the
+ * match is ambiguous or does not meet `expected_occurrences`, and with the
+ * closest fuzzy match when there is no exact match.
+ */
+export function applyEdit(content: string, edit: EditSpec): EditOutcome {
+  const { old_string: oldString, new_string: newString } = edit;
+  if (oldString === '') {
+    return { error: 'old_string must not be empty' };
+  }
+
+  const occurrences = findOccurrences(content, oldString);
+  if (occurrences.length === 0) {
+    return { error: notFoundError(content, oldString) };
+  }
+
+  const lines = occurrences.map(index => lineNumberAt(content, index));
+  const expected = edit.expected_occurrences;
+  if (expected !== undefined && occurrences.length !== expected) {
+    return {
+      error:
+        `Expected ${expected} occurrence(s) of old_string but found ${occurrences.length} ` +
+        `at line(s) ${formatLines(lines)}`,
+    };
+  }
+  if (occurrences.length > 1 && !edit.replace_all && expected === undefined) {
+    return {
+      error:
+        `old_string is ambiguous: found ${occurrences.length} occurrences at lines ${formatLines(lines)}. ` +
+        'Include more surrounding context to make it unique, or set replace_all.',
+    };
+  }
+
+  // Rebuild by index so `$` sequences in new_string are inserted literally.
+  let result = '';
+  let last = 0;
+  for (const index of occurrences) {
+    result += content.slice(last, index) + newString;
+    last = index + oldString.length;
+  }
+  return { content: result + content.slice(last) };
+}
+
+/**
+ * Apply edits in order to the same content. Either all edits succeed or the
+ * first failure is returned and nothing is changed.
+ */
+export function applyEdits(content: string, edits: EditSpec[]): EditOutcome {
+  if (edits.length === 0) {
+    return { error: 'No edits given' };
+  }
+  let current = content;
+  for (let i = 0; i < edits.length; i++) {
+    const outcome = applyEdit(current, edits[i]);
+    if (outcome.error !== undefined) {
+      return { error: `Edit ${i + 1} of ${edits.length} failed, no changes were made: ${outcome.error}` };
+    }
+    current = outcome.content;
+  }
+  return { content: current };
+}
+
+/** Read edit options from raw tool call arguments. */
+export function toEditSpec(args: Record<string, unknown>): EditSpec {
+  return {
+    old_string: String(args.old_string ?? ''),
+    new_string: String(args.new_string ?? ''),
+    replace_all: args.replace_all === true,
+    expected_occurrences: args.expected_occurrences === undefined ? undefined : Number(args.expected_occurrences),
+  };
+}
@@ -0,0 +1,407 @@
+import { Content } from '@google/genai';
+import { MAX_EXPORT_RESULT_CHARS, PermissionRecord, PermissionSource, RecordedPart, Session, SessionSummary } from '../types.js';
+import { SUMMARY_ACK, SUMMARY_MARKER } from './compaction.js';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+  json: '.json',
+};
+
+export const TRANSCRIPT_VERSION = 1;
+
+/**
+ * `ok` and `error` calls ran; `denied` calls were refused by a settings rule,
+ * the user, a policy or plan mode; `no_result` calls never got a response,
+ * e.g. because the turn was cut short.
+ */
+export type ToolCallStatus = 'ok' | 'error' | 'denied' | 'no_result';
+
+export type TranscriptEntry =
+  | { type: 'user'; text: string }
+  | { type: 'agent'; text: string }
+  /** Replaces messages summarized by compaction. */
+  | { type: 'summary'; text: string }
+  | {
+      type: 'tool_call';
+      name: string;
+      args: Record<string, unknown>;
+      status: ToolCallStatus;
+      /** Absent for calls that needed no permission. */
+      permission?: PermissionRecord;
+      output?: string;
+      error?: string;
+    };
+
+/** A session without thoughts and thought signatures, for reading and tooling. */
+export interface Transcript {
+  version: typeof TRANSCRIPT_VERSION;
+  session: {
+    id: string;
+    title?: string;
+    createdAt: string;
+    updatedAt?: string;
+    parentId?: string;
+  };
+  /** Sessions of sub-agents this session delegated to. */
+  subSessions: { id: string; title?: string }[];
+  entries: TranscriptEntry[];
+}
+
+type ToolCallEntry = Extract<TranscriptEntry, { type: 'tool_call' }>;
+
+function isPermissionRecord(value: unknown): value is PermissionRecord {
+  const record = value as PermissionRecord | undefined;
+  return typeof record?.granted === 'boolean' && typeof record.source === 'string';
+}
+
+function responseText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function addText(entries: TranscriptEntry[], type: 'user' | 'agent', text: string): void {
+  const last = entries[entries.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    entries.push({ type, text });
+  }
+}
+
+function isSummaryAck(msg: Content, previous: Content | undefined): boolean {
+  const text = (msg.parts ?? []).map(part => part.text ?? '').join('');
+  const previousText = previous?.parts?.[0]?.text ?? '';
+  return text === SUMMARY_ACK && previousText.startsWith(SUMMARY_MARKER);
+}
+
+/**
+ * Normalize a session into user and agent text, compaction summaries and tool
+ * calls paired with their results. Thoughts and signatures are dropped.
+ */
+export function toTranscript(session: Session, subSessions: SessionSummary[] = []): Transcript {
+  const entries: TranscriptEntry[] = [];
+  // Calls waiting for a response, matched by name in call order.
+  let pending: ToolCallEntry[] = [];
+
+  session.messages.forEach((msg, i) => {
+    if (msg.role === 'model' && isSummaryAck(msg, session.messages[i - 1])) {
+      return;
+    }
+    for (const part of msg.parts ?? []) {
+      if (part.thought) {
+        continue;
+      }
+      if (part.functionCall) {
+        const call: ToolCallEntry = {
+          type: 'tool_call',
+          name: part.functionCall.name ?? '',
+          args: part.functionCall.args ?? {},
+          status: 'no_result',
+        };
+        entries.push(call);
+        pending.push(call);
+      } else if (part.functionResponse) {
+        const index = pending.findIndex(call => call.name === part.functionResponse?.name);
+        if (index === -1) {
+          continue;
+        }
+        const [call] = pending.splice(index, 1);
+        const response = part.functionResponse.response ?? {};
+        const permission = (part as RecordedPart).permission;
+        if (isPermissionRecord(permission)) {
+          call.permission = { granted: permission.granted, source: permission.source };
+        }
+        if (response.error !== undefined) {
+          call.error = responseText(response.error);
+          call.status = call.permission?.granted === false ? 'denied' : 'error';
+        } else {
+          call.output = responseText(response.result ?? response.output);
+          call.status = 'ok';
+        }
+      } else if (part.text) {
+        if (part.text.startsWith(SUMMARY_MARKER)) {
+          entries.push({ type: 'summary', text: part.text.slice(SUMMARY_MARKER.length).trim() });
+        } else {
+          addText(entries, msg.role === 'model' ? 'agent' : 'user', part.text);
+        }
+      }
+    }
+    if (msg.role === 'user' && !(msg.parts ?? []).some(part => part.functionResponse)) {
+      // A new prompt; calls still open were never answered.
+      pending = [];
+    }
+  });
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    session: {
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      parentId: session.parentId,
+    },
+    subSessions: subSessions.map(sub => ({ id: sub.id, title: sub.title })),
+    entries: entries.filter(entry => entry.type === 'tool_call' || entry.text.trim()),
+  };
+}
+
+/** The argument that identifies a call best, e.g. a path or command. */
+function callSubject(args: Record<string, unknown>): string {
+  for (const key of ['path', 'command', 'pattern', 'task', 'summary', 'id']) {
+    if (args[key] !== undefined && args[key] !== '') {
+      return String(args[key]).split('\n')[0];
+    }
+  }
+  const json = JSON.stringify(args);
+  return json === '{}' ? '' : json;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength)}\n... (${text.length - maxLength} more characters)`;
+}
+
+function ellipsize(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  ok: '',
+  error: 'failed',
+  denied: 'denied',
+  no_result: 'no result',
+};
+
+const DECIDERS: Record<PermissionSource, string> = {
+  none: 'default',
+  settings: 'a settings rule',
+  user: 'the user',
+  policy: 'the --permissions policy',
+  plan_mode: 'plan mode',
+  interrupted: 'interruption',
+};
+
+/** E.g. "Allowed by a settings rule". */
+function permissionText(permission: PermissionRecord): string {
+  return `${permission.granted ? 'Allowed' : 'Denied'} by ${DECIDERS[permission.source] ?? permission.source}`;
+}
+
+function callSummary(call: ToolCallEntry): { subject: string; label: string } {
+  return { subject: ellipsize(callSubject(call.args), 100), label: STATUS_LABELS[call.status] };
+}
+
+function callResult(call: ToolCallEntry): { heading: string; text: string } | null {
+  if (call.status === 'denied') {
+    return { heading: call.permission ? permissionText(call.permission) : 'Denied', text: call.error ?? '' };
+  }
+  if (call.status === 'error') {
+    return { heading: 'Error', text: truncate(call.error ?? '', MAX_EXPORT_RESULT_CHARS) };
+  }
+  if (call.status === 'ok') {
+    return { heading: 'Result', text: truncate(call.output || '(no output)', MAX_EXPORT_RESULT_CHARS) };
+  }
+  return null;
+}
+
+function speaker(entry: TranscriptEntry): string | null {
+  if (entry.type === 'user') {
+    return 'User';
+  }
+  return entry.type === 'summary' ? null : 'Agent';
+}
+
+function sessionFacts(transcript: Transcript): [string, string][] {
+  const { session } = transcript;
+  const facts: [string, string][] = [['Session', session.id], ['Started', session.createdAt]];
+  if (session.updatedAt) {
+    facts.push(['Last message', session.updatedAt]);
+  }
+  if (session.parentId) {
+    facts.push(['Sub-agent of', session.parentId]);
+  }
+  const calls = transcript.entries.filter((entry): entry is ToolCallEntry => entry.type === 'tool_call');
+  const denied = calls.filter(call => call.status === 'denied').length;
+  facts.push(['Tool calls', denied ? `${calls.length} (${denied} denied)` : String(calls.length)]);
+  return facts;
+}
+
+/** A code fence longer than any backtick run in the text. */
+function fence(text: string, language = ''): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Markdown for pull requests and issues. Tool calls are collapsible
+ * `<details>` blocks, which GitHub and most viewers render.
+ */
+export function renderMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.session.title ?? 'Untitled session'}`, ''];
+  for (const [name, value] of sessionFacts(transcript)) {
+    lines.push(`- **${name}:** ${value}`);
+  }
+  for (const sub of transcript.subSessions) {
+    lines.push(`- **Sub-agent session:** ${sub.id}${sub.title ? ` (${sub.title})` : ''}`);
+  }
+
+  let current: string | null = null;
+  for (const entry of transcript.entries) {
+    const next = speaker(entry);
+    if (next && next !== current) {
+      lines.push('', `## ${next}`);
+    }
+    current = next;
+
+    if (entry.type === 'summary') {
+      lines.push('', '> **Summary of earlier conversation**', '>');
+      lines.push(...entry.text.split('\n').map(line => (line ? `> ${line}` : '>')));
+    } else if (entry.type === 'tool_call') {
+      const { subject, label } = callSummary(entry);
+      const title = [`<code>${escapeHtml(entry.name)}</code>`, escapeHtml(subject), label && `<b>${label}</b>`]
+        .filter(Boolean)
+        .join(' ');
+      lines.push('', '<details>', `<summary>${title}</summary>`, '');
+      lines.push('Arguments:', '', fence(JSON.stringify(entry.args, null, 2), 'json'));
+      if (entry.permission?.granted) {
+        lines.push('', `${permissionText(entry.permission)}.`);
+      }
+      const result = callResult(entry);
+      if (result) {
+        lines.push('', `${result.heading}:`, '', fence(result.text));
+      }
+      lines.push('', '</details>');
+    } else {
+      lines.push('', entry.text.trim());
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+const HTML_STYLE = `
+body { font: 15px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.6em; border-bottom: 1px solid #d0d7de; padding-bottom: .3em; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: .2em 1em; color: #57606a; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+.turn { margin: 1.2em 0; padding: .6em 1em; border-radius: 6px; }
+.turn h2 { font-size: .85em; text-transform: uppercase; letter-spacing: .05em; margin: 0 0 .4em; color: #57606a; }
+.user { background: #ddf4ff; }
+.agent { background: #f6f8fa; }
+.summary { background: #fff8c5; }
+.text { white-space: pre-wrap; word-wrap: break-word; margin: .4em 0; }
+details { margin: .4em 0; border: 1px solid #d0d7de; border-radius: 6px; background: #fff; }
+summary { cursor: pointer; padding: .3em .6em; }
+details > div { padding: 0 .6em .4em; }
+.status { font-weight: 600; margin-left: .4em; }
+.denied .status, .error .status, .no_result .status { color: #cf222e; }
+pre { background: #f6f8fa; padding: .6em; overflow-x: auto; font-size: 13px; margin: .2em 0 .6em; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+`;
+
+function renderHtmlCall(call: ToolCallEntry): string {
+  const { subject, label } = callSummary(call);
+  const parts = [
+    `<details class="${call.status}">`,
+    `<summary><code>${escapeHtml(call.name)}</code> ${escapeHtml(subject)}` +
+      (label ? `<span class="status">${label}</span>` : '') +
+      '</summary>',
+    '<div>',
+    `<p>Arguments:</p><pre>${escapeHtml(JSON.stringify(call.args, null, 2))}</pre>`,
+  ];
+  if (call.permission?.granted) {
+    parts.push(`<p>${permissionText(call.permission)}.</p>`);
+  }
+  const result = callResult(call);
+  if (result) {
+    parts.push(`<p>${result.heading}:</p><pre>${escapeHtml(result.text)}</pre>`);
+  }
+  parts.push('</div>', '</details>');
+  return parts.join('\n');
+}
+
+/** A single HTML file with inline styles and no scripts. */
+export function renderHtml(transcript: Transcript): string {
+  const title = escapeHtml(transcript.session.title ?? 'Untitled session');
+  const facts = sessionFacts(transcript).map(([name, value]) => `<dt>${name}</dt><dd>${escapeHtml(value)}</dd>`);
+  for (const sub of transcript.subSessions) {
+    facts.push(`<dt>Sub-agent session</dt><dd>${escapeHtml(sub.id)}${sub.title ? ` (${escapeHtml(sub.title)})` : ''}</dd>`);
+  }
+
+  const body: string[] = [];
+  let current: string | null = null;
+  for (const entry of transcript.entries) {
+    const next = entry.type === 'summary' ? 'Summary of earlier conversation' : speaker(entry);
+    if (next !== current || entry.type === 'summary') {
+      if (current) {
+        body.push('</section>');
+      }
+      const cls = entry.type === 'summary' ? 'summary' : next === 'User' ? 'user' : 'agent';
+      body.push(`<section class="turn ${cls}">`, `<h2>${next}</h2>`);
+      current = next;
+    }
+    if (entry.type === 'tool_call') {
+      body.push(renderHtmlCall(entry));
+    } else {
+      body.push(`<div class="text">${escapeHtml(entry.text.trim())}</div>`);
+    }
+  }
+  if (current) {
+    body.push('</section>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<dl>${facts.join('')}</dl>`,
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/** Render a session in the given format. */
+export function exportSession(session: Session, format: ExportFormat, subSessions: SessionSummary[] = []): string {
+  const transcript = toTranscript(session, subSessions);
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(transcript);
+    case 'html':
+      return renderHtml(transcript);
+    case 'json':
+      return JSON.stringify(transcript, null, 2) + '\n';
+  }
+}
+
+/** The format for a file name, by extension. */
+export function formatFromPath(filePath: string): ExportFormat | undefined {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.markdown')) {
+    return 'markdown';
+  }
+  return EXPORT_FORMATS.find(format => lower.endsWith(EXPORT_EXTENSIONS[format]));
+}
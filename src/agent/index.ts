@@ -1,77 +1,203 @@
-import chalk from 'chalk';
-import { GoogleGenAI, Content, FunctionCall } from '@google/genai';
+import { Content, FunctionCall, FunctionDeclaration, Part } from '@google/genai';
+import { v4 as uuidv4 } from 'uuid';
 import { SettingsManager } from '../storage/settings.js';
 import { HistoryManager } from '../storage/history.js';
-import { ToolResult, MAX_HOPS, PermissionResponse, API_TIMEOUT_MS, MAX_CONTEXT_CHARS } from '../types.js';
+import { CheckpointManager } from '../storage/checkpoints.js';
+import { MemoryManager } from '../storage/memory.js';
 import {
-  TOOL_DECLARATIONS,
-  TOOL_PERMISSIONS,
-  createToolExecutor,
-  getToolDescription,
-} from './tools.js';
-
-function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(message)), ms)
-    ),
-  ]);
+  ToolResult,
+  MAX_HOPS,
+  SUBAGENT_MAX_HOPS,
+  INTERRUPTED_MESSAGE,
+  MAX_SUBAGENT_REPORT_CHARS,
+  PermissionRecord,
+  PermissionResponse,
+  PermissionSource,
+  PermissionSubject,
+  Plan,
+  RecordedPart,
+  FileChangePreview,
+  COMPACTION_KEEP_TURNS,
+  COMPACTION_KEEP_STEPS,
+} from '../types.js';
+import { TOOL_NAMES, TOOL_PERMISSIONS, createToolRegistry } from './tools.js';
+import { SubAgentRequest, ToolOutputFn, ToolRegistry } from './registry.js';
+import {
+  SUBMIT_PLAN_DECLARATION,
+  UPDATE_PLAN_DECLARATION,
+  PLAN_TOOL_NAMES,
+  createPlan,
+  describePlanCall,
+  formatPlan,
+  isPlanTool,
+  updatePlan,
+} from './planning.js';
+import {
+  ModelProvider,
+  GeminiProvider,
+  GenerateContentParams,
+  GenerateContentResponse,
+  UsageMetadata,
+} from './provider.js';
+import {
+  ContextBreakdown,
+  ContextTracker,
+  TokenUsage,
+  countTokens,
+  getCompactionThreshold,
+  getContextWindow,
+  splitContentsByCategory,
+} from './context.js';
+import { applyCompaction, planCompaction, transcriptText } from './compaction.js';
+import { DEFAULT_RETRY_POLICY, RetryEvent, RetryFn, RetryPolicy, streamWithRetry, withRetry } from './retry.js';
+import { UsageTotals, checkBudget, emptyTotals, sumUsage, toUsageRecord, usageDay } from './usage.js';
+
+function withAbortSignal(params: GenerateContentParams, abortSignal: AbortSignal): GenerateContentParams {
+  return { ...params, config: { ...params.config, abortSignal } };
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/** History as sent to the model, without the permission records kept for export. */
+function toModelContents(contents: Content[]): Content[] {
+  return contents.map(msg => {
+    if (!msg.parts?.some(part => 'permission' in part)) {
+      return msg;
+    }
+    return { ...msg, parts: msg.parts.map(({ permission, ...part }: RecordedPart) => part) };
+  });
 }
 
-interface GenerateContentParams {
-  model: string;
-  contents: Content[];
-  config?: {
-    tools?: Array<{ functionDeclarations: unknown[] }>;
-    systemInstruction?: string;
-  };
+function isPlainText(part: Part): boolean {
+  return part.text !== undefined && !part.functionCall && !part.thoughtSignature;
 }
 
-interface GenerateContentResponse {
-  text?: string;
-  functionCalls?: FunctionCall[];
-  candidates?: Array<{ content?: Content }>;
+/**
+ * Appends a streamed part, merging consecutive plain text fragments so the
+ * stored model turn looks like a non-streamed response. Parts carrying a
+ * thoughtSignature are kept as-is.
+ */
+function appendStreamedPart(parts: Part[], part: Part): void {
+  const last = parts[parts.length - 1];
+  if (last && isPlainText(last) && isPlainText(part) && Boolean(last.thought) === Boolean(part.thought)) {
+    parts[parts.length - 1] = { ...last, text: (last.text ?? '') + part.text };
+    return;
+  }
+  parts.push(part);
 }
 
-async function generateContentWithRetry(
-  ai: GoogleGenAI,
-  params: GenerateContentParams,
-  maxRetries: number = 3
-): Promise<GenerateContentResponse> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await ai.models.generateContent(params as any);
-    } catch (error: any) {
-      const errorMessage = error?.message || '';
-      const errorObj = error?.error || {};
-      const isRateLimit =
-        error?.status === 429 ||
-        errorMessage.includes('429') ||
-        errorObj.code === 429 ||
-        errorMessage.includes('RESOURCE_EXHAUSTED');
-
-      if (isRateLimit) {
-        console.log(chalk.yellow(`\n[Rate limit hit. Waiting 60 seconds before retry (${attempt + 1}/${maxRetries})...]`));
-        await sleep(60000);
-        continue;
-      }
+interface ToolRun {
+  name: string;
+  run: (onOutput: ToolOutputFn) => Promise<ToolResult>;
+}
+
+/**
+ * Runs tools at the same time and yields their output as `tool_output` events
+ * while they run, returning their results in order once all have finished.
+ */
+async function* streamToolOutput(runs: ToolRun[]): AsyncGenerator<AgentStreamEvent, ToolResult[]> {
+  const chunks: { name: string; text: string }[] = [];
+  let wake: (() => void) | null = null;
+  let running = runs.length;
+
+  const pending = Promise.all(
+    runs.map(({ name, run }) =>
+      run(text => {
+        chunks.push({ name, text });
+        wake?.();
+      }).finally(() => {
+        running--;
+        wake?.();
+      })
+    )
+  );
+  // Rejections surface when `pending` is returned below.
+  pending.catch(() => undefined);
 
-      throw error;
+  while (true) {
+    while (chunks.length > 0) {
+      yield { type: 'tool_output', ...chunks.shift()! };
     }
+    if (running === 0) {
+      break;
+    }
+    await new Promise<void>(resolve => {
+      wake = resolve;
+    });
+    wake = null;
+  }
+
+  return pending;
+}
+
+/** Passes every event of `events` to `observe` before yielding it, and returns what `events` returns. */
+async function* tap<T, R>(events: AsyncGenerator<T, R>, observe: (event: T) => void): AsyncGenerator<T, R> {
+  try {
+    while (true) {
+      const next = await events.next();
+      if (next.done) {
+        return next.value;
+      }
+      observe(next.value);
+      yield next.value;
+    }
+  } finally {
+    // Lets `events` clean up, e.g. abort its request, when the consumer stops early.
+    await events.return(undefined as R);
   }
+}
+
+/** The end of an interrupted turn, keeping the text streamed before the interruption. */
+function interruptedDone(text: string): Extract<AgentStreamEvent, { type: 'done' }> {
+  const note = `[${INTERRUPTED_MESSAGE}]`;
+  return { type: 'done', text: text.trim() ? `${text}\n\n${note}` : note, reason: 'interrupted' };
+}
+
+/** How a tool call's permission was decided. */
+interface Authorization {
+  /** Why the call was denied, or null when it may run. */
+  denial: string | null;
+  source: PermissionSource;
+}
 
-  return ai.models.generateContent(params as any);
+/** A function call from the model, after its permission was decided. */
+interface PendingCall {
+  name: string;
+  args: Record<string, unknown>;
+  /** Why the call was denied, or null when it may run. */
+  denial: string | null;
+  /** Stored next to the call's response in history. Absent when no permission was checked. */
+  permission?: PermissionRecord;
+}
+
+/**
+ * Split calls into groups that run one after another. Consecutive calls that
+ * can share a group (read-only or denied) run at the same time; any other
+ * call runs on its own, so it sees the effects of the calls before it.
+ */
+function groupCalls(calls: PendingCall[], canShare: (call: PendingCall) => boolean): PendingCall[][] {
+  const groups: PendingCall[][] = [];
+  let shared: PendingCall[] = [];
+  for (const call of calls) {
+    if (canShare(call)) {
+      shared.push(call);
+      continue;
+    }
+    if (shared.length > 0) {
+      groups.push(shared);
+      shared = [];
+    }
+    groups.push([call]);
+  }
+  if (shared.length > 0) {
+    groups.push(shared);
+  }
+  return groups;
 }
 
 const SYSTEM_INSTRUCTION = `You are a coding assistant with access to file system tools. Be conservative and thorough:
 
 - Read relevant files before making changes
-- Make targeted edits using edit_file rather than rewriting entire files
+- Use grep_files and glob_files to locate code instead of listing directories recursively
+- Make targeted edits using edit_file or multi_edit rather than rewriting entire files
 - Use head_file/tail_file for large files to avoid reading too much content
 - Run commands only when necessary
 - Explain what you're doing before taking action
@@ -84,69 +210,199 @@ Available tools:
 - head_file: Read first N lines of a file
 - tail_file: Read last N lines of a file
 - list_dir: List directory contents
-- run_command: Execute a shell command
-- edit_file: Edit a file by replacing a specific string`;
+- grep_files: Search file contents with a regular expression
+- glob_files: Find files by glob pattern
+- run_command: Execute a shell command (optionally in the background)
+- check_process: Check status and new output of a background process
+- kill_process: Stop a background process
+- edit_file: Edit a file by replacing a specific string
+- multi_edit: Apply several replacements to one file at once
+- delegate_task: Hand a self-contained task to a sub-agent that reports back`;
+
+const SUBAGENT_INSTRUCTION = `You are a sub-agent. Another agent delegated the task below to you and will only see your final message, not your tool calls.
+
+- Only the tools declared to you are available; by default they can only read
+- Work on your own: nobody can answer questions, so make reasonable assumptions and state them
+- Stop as soon as you have what the task asks for
+- End with a concise report of what you found or did, with file paths and line numbers where relevant, and anything left open. No preamble.`;
 
 const PLAN_SYSTEM_ADDITION = `
 
-IMPORTANT: You are in PLAN MODE. Before taking any action:
-1. First analyze the request and create a detailed step-by-step plan
-2. List all files you plan to read, modify, or create
-3. Explain the reasoning for each step
-4. After presenting the plan, wait for user approval before executing
+IMPORTANT: You are in PLAN MODE. Only tools that read are available; anything that writes files or runs commands is blocked.
+1. Investigate the request: read the relevant files and find the code involved
+2. Work out concrete steps in execution order, naming the files each step reads, modifies or creates
+3. Call submit_plan with a short summary and the steps. The user will approve, edit or reject the plan
 
-Do NOT execute any actions until the user approves the plan.`;
+Do NOT describe the plan in text instead of submitting it.`;
 
-const SUMMARIZE_PROMPT = `Summarize the following tool calls and their results into a concise summary. 
-Keep key information like file names, important code changes, and outcomes. 
+/** Sent after the user approves a plan. */
+export const EXECUTE_PLAN_PROMPT = `The plan is approved. Carry it out step by step.
+Call update_plan with status "in_progress" when you start a step and "done" or "skipped" (with a note) when you finish it.`;
+
+const SUMMARIZE_PROMPT = `Summarize the following part of a conversation between a user and a coding assistant.
+It will replace that part of the conversation, so keep what is needed to continue the work:
+the user's requests, decisions made, file names, important code changes, command outcomes and open problems.
 Format as a brief bullet list. Do not include full file contents.`;
 
+/** Sent by `/init` to have the agent write the project memory file. */
+export const INIT_PROMPT = `Create a project instruction file at .gemini/AGENT.md for future sessions in this project.
+Inspect the project first: list the top-level directory, read the build files, README and a few representative source files.
+Then write a concise Markdown file covering:
+- What the project is and its main technologies
+- How to build, run and test it (exact commands)
+- The directory layout and where the important code lives
+- Code style and conventions worth following
+If .gemini/AGENT.md already exists, read it and improve it instead of starting over, keeping anything still accurate.
+Keep it under 60 lines and only include facts you verified.`;
+
+/** Longest tool result, in characters, included verbatim in a summarization request. */
+const MAX_SUMMARIZED_RESULT_CHARS = 2000;
+
 export type PermissionPromptFn = (
   tool: string,
   args: Record<string, unknown>,
-  description: string
+  description: string,
+  subject?: PermissionSubject,
+  preview?: FileChangePreview
 ) => Promise<PermissionResponse>;
 
-export type ToolLogFn = (tool: string, args: Record<string, unknown>, result: ToolResult) => void;
+export type AgentStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; name: string; args: Record<string, unknown>; description: string }
+  | { type: 'tool_output'; name: string; text: string }
+  | { type: 'tool_result'; name: string; args: Record<string, unknown>; result: ToolResult; granted: boolean }
+  /** The plan was submitted or its progress changed. */
+  | { type: 'plan'; plan: Plan }
+  /**
+   * `plan` means the turn ended with a plan waiting for review, `budget` that
+   * a budget limit in settings was reached, `interrupted` that the turn's
+   * signal was aborted.
+   */
+  | { type: 'done'; text: string; reason: 'complete' | 'max_hops' | 'plan' | 'budget' | 'interrupted' };
+
+/**
+ * What an agent reports to its observers: every stream event plus the
+ * lifecycle of a turn. A turn starts with `turn_start` and ends with `done`,
+ * or with `error` when it fails.
+ */
+export type AgentEvent =
+  | AgentStreamEvent
+  | { type: 'turn_start'; sessionId: string; message: string }
+  /** Before each model request. `estimated` is true when `tokens` is based on character counts. */
+  | { type: 'hop'; hop: number; messages: number; tokens: number; threshold: number; estimated: boolean }
+  | { type: 'model_response'; hop: number; text: string; functionCalls: FunctionCall[]; usage?: UsageMetadata }
+  | { type: 'permission'; name: string; args: Record<string, unknown>; granted: boolean; source: PermissionSource; reason?: string }
+  /** A failed model request is about to be retried. */
+  | ({ type: 'retry' } & RetryEvent)
+  /** The context exceeds the compaction threshold and is about to be compacted. */
+  | { type: 'compaction_start'; tokens: number; threshold: number }
+  /** `result` is null when there was nothing worth compacting. */
+  | { type: 'compaction'; result: CompactionResult | null }
+  /** An event of a sub-agent running in the given sub-session. */
+  | { type: 'subagent'; sessionId: string; event: AgentEvent }
+  | { type: 'error'; error: string };
+
+export type AgentEventFn = (event: AgentEvent) => void;
 
-export type ContextLogFn = (hop: number, messages: number, chars: number, tokens: number) => void;
+export interface CompactionResult {
+  messagesBefore: number;
+  messagesAfter: number;
+  summarizedMessages: number;
+  /** Where the pre-compaction transcript was saved. */
+  archivePath: string | null;
+}
 
 export interface AgentConfig {
   projectDir: string;
   settings: SettingsManager;
   history: HistoryManager;
   onPermissionPrompt: PermissionPromptFn;
-  onToolCall?: ToolLogFn;
-  onContextLog?: ContextLogFn;
+  /** Observer for every event. More can be added with `subscribe`. */
+  onEvent?: AgentEventFn;
+  /** Model backend. Defaults to Gemini using GEMINI_API_KEY. */
+  provider?: ModelProvider;
+  /**
+   * When false, permissions saved in settings are ignored and every tool call
+   * goes through onPermissionPrompt. Defaults to true.
+   */
+  useSavedPermissions?: boolean;
+  /** Snapshots files before tools modify them. Defaults to one for projectDir. */
+  checkpoints?: CheckpointManager;
+  /** Instruction files added to the system instruction. Defaults to one for projectDir. */
+  memory?: MemoryManager;
+  /** Tools offered to the model. Defaults to the built-in tools. */
+  tools?: ToolRegistry;
+  /** Model requests per message. Defaults to MAX_HOPS. */
+  maxHops?: number;
+  /** Appended to the system instruction. */
+  instructions?: string;
+  /**
+   * Called before a tool modifies a file. Defaults to snapshotting the file
+   * in this agent's session so the turn can be undone.
+   */
+  beforeWrite?: (filePath: string) => void;
+  /** Overrides the retry settings for model requests. */
+  retry?: Partial<RetryPolicy>;
 }
 
 export class Agent {
-  private ai: GoogleGenAI;
+  private provider: ModelProvider;
   private projectDir: string;
   private settings: SettingsManager;
   private history: HistoryManager;
-  private executeTool: (name: string, args: Record<string, unknown>) => ToolResult;
+  private tools: ToolRegistry;
   private onPermissionPrompt: PermissionPromptFn;
-  private onToolCall?: ToolLogFn;
-  private onContextLog?: ContextLogFn;
+  private listeners = new Set<AgentEventFn>();
+  private retryPolicy: RetryPolicy;
+  private useSavedPermissions: boolean;
+  private checkpoints: CheckpointManager;
+  private memory: MemoryManager;
+  private maxHops: number;
+  private instructions?: string;
+  private beforeWrite: (filePath: string) => void;
+  private currentTurn: { sessionId: string; id: string; prompt: string } | null = null;
   private planMode: boolean = false;
+  private context = new ContextTracker();
 
   constructor(config: AgentConfig) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY not set');
-    }
-
-    this.ai = new GoogleGenAI({ apiKey });
+    this.provider = config.provider ?? new GeminiProvider();
     this.projectDir = config.projectDir;
     this.settings = config.settings;
     this.history = config.history;
-    this.executeTool = createToolExecutor(config.projectDir);
+    this.checkpoints = config.checkpoints ?? new CheckpointManager(config.projectDir);
+    this.memory = config.memory ?? new MemoryManager(config.projectDir);
+    this.tools = config.tools ?? createToolRegistry({
+      ignore: config.settings.getIgnorePatterns(),
+      denied: config.settings.getDenyPatterns(TOOL_PERMISSIONS[TOOL_NAMES.GREP_FILES]),
+    });
     this.onPermissionPrompt = config.onPermissionPrompt;
-    this.onToolCall = config.onToolCall;
-    this.onContextLog = config.onContextLog;
+    if (config.onEvent) {
+      this.listeners.add(config.onEvent);
+    }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.settings.getRetrySettings(), ...config.retry };
+    this.useSavedPermissions = config.useSavedPermissions ?? true;
+    this.maxHops = config.maxHops ?? MAX_HOPS;
+    this.instructions = config.instructions;
+    this.beforeWrite = config.beforeWrite ?? (filePath => this.snapshotFile(filePath));
   }
 
+  /** Add an observer for every event. Returns a function that removes it. */
+  subscribe(listener: AgentEventFn): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Listeners are called synchronously, in the order they were added. */
+  private emit(event: AgentEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private readonly emitRetry: RetryFn = event => this.emit({ type: 'retry', ...event });
+
   setPlanMode(enabled: boolean): void {
     this.planMode = enabled;
   }
@@ -155,210 +411,671 @@ export class Agent {
     return this.planMode;
   }
 
-  getContextSize(): number {
-    return this.calculateContentSize(this.history.getMessages());
+  getTools(): ToolRegistry {
+    return this.tools;
   }
 
-  async processMessage(userMessage: string): Promise<string> {
-    this.history.addMessage({
-      role: 'user',
-      parts: [{ text: userMessage }],
-    });
+  /** The plan of the current session, if one was submitted. */
+  getPlan(): Plan | null {
+    return this.history.getPlan();
+  }
 
-    const contents = this.history.getMessages();
-    const result = await this.agenticLoop(contents);
+  /**
+   * Approve the proposed plan, optionally as edited by the user, and leave
+   * plan mode. Send EXECUTE_PLAN_PROMPT next to have it carried out.
+   */
+  approvePlan(edited?: Plan): Plan {
+    const plan = edited ?? this.getPlan();
+    if (!plan) {
+      throw new Error('There is no plan to approve');
+    }
+    const approved: Plan = { ...plan, status: 'approved', updatedAt: new Date().toISOString() };
+    this.history.savePlan(approved);
+    this.planMode = false;
+    return approved;
+  }
 
-    this.history.addMessage({
-      role: 'model',
-      parts: [{ text: result }],
-    });
+  /** Reject the proposed plan. Plan mode stays on so a new plan can be made. */
+  rejectPlan(): void {
+    const plan = this.getPlan();
+    if (plan) {
+      this.history.savePlan({ ...plan, status: 'rejected', updatedAt: new Date().toISOString() });
+    }
+  }
 
-    return result;
+  /** Current context size in tokens, including the system prompt and tool declarations. */
+  async getContextTokens(signal?: AbortSignal): Promise<number> {
+    const measured = await this.measureContext(this.history.getMessages(), signal);
+    return measured.tokens;
   }
 
-  private calculateContentSize(contents: Content[]): number {
-    let totalChars = 0;
-    for (const msg of contents) {
-      for (const part of msg.parts ?? []) {
-        if (part.text) totalChars += part.text.length;
-        if (part.functionCall) {
-          totalChars += JSON.stringify(part.functionCall).length;
-        }
-        if (part.functionResponse) {
-          totalChars += JSON.stringify(part.functionResponse).length;
-        }
-      }
+  /** Token counts per part of the context, for `/context`. */
+  async getContextBreakdown(signal?: AbortSignal): Promise<ContextBreakdown> {
+    const model = this.settings.getModel();
+    const split = splitContentsByCategory(this.history.getMessages());
+    const [system, user, modelText, toolCalls, toolResults] = await Promise.all([
+      countTokens(this.provider, model, this.getSystemContents(), signal),
+      countTokens(this.provider, model, split.user, signal),
+      countTokens(this.provider, model, split.model, signal),
+      countTokens(this.provider, model, split.toolCalls, signal),
+      countTokens(this.provider, model, split.toolResults, signal),
+    ]);
+    const counts = [system, user, modelText, toolCalls, toolResults];
+    return {
+      model,
+      window: getContextWindow(model),
+      threshold: getCompactionThreshold(model),
+      total: counts.reduce((sum, count) => sum + count.tokens, 0),
+      estimated: counts.some(count => count.estimated),
+      categories: {
+        system: system.tokens,
+        user: user.tokens,
+        model: modelText.tokens,
+        toolCalls: toolCalls.tokens,
+        toolResults: toolResults.tokens,
+      },
+    };
+  }
+
+  /** Tokens reported by the model for the last turn and for the current session. */
+  getTokenUsage(): { turn: TokenUsage; session: TokenUsage } {
+    return {
+      turn: this.context.getTurnUsage(),
+      session: this.context.getSessionUsage(this.getSessionId()),
+    };
+  }
+
+  /**
+   * Recorded usage of the current session including its sub-agents, and of
+   * the whole project today, priced with the settings' price table.
+   */
+  getUsage(): { session: UsageTotals; today: UsageTotals } {
+    return { session: this.getSessionUsage(), today: this.getTodayUsage() };
+  }
+
+  private getSessionUsage(): UsageTotals {
+    const sessionId = this.getSessionId();
+    const records = sessionId ? this.history.getUsage(this.history.getRootSessionId(sessionId), true) : [];
+    return sumUsage(records, this.settings.getPricing());
+  }
+
+  private getTodayUsage(): UsageTotals {
+    const today = usageDay(new Date());
+    const records = this.history.getAllUsage().filter(record => usageDay(record.timestamp) === today);
+    return sumUsage(records, this.settings.getPricing());
+  }
+
+  /** The message for a reached budget limit, or null when there is none. */
+  private checkBudget(): string | null {
+    const budget = this.settings.getBudget();
+    if (budget.sessionTokens === undefined && budget.sessionCost === undefined && budget.dailyCost === undefined) {
+      return null;
     }
-    return totalChars;
+    // Reading every session's usage is only worth it with a daily limit.
+    const today = budget.dailyCost === undefined ? emptyTotals() : this.getTodayUsage();
+    return checkBudget(budget, this.getSessionUsage(), today);
   }
 
-  private logContextSize(contents: Content[], hop: number): void {
-    const totalChars = this.calculateContentSize(contents);
-    const estimatedTokens = Math.ceil(totalChars / 4);
-    this.onContextLog?.(hop, contents.length, totalChars, estimatedTokens);
+  async processMessage(userMessage: string, signal?: AbortSignal): Promise<string> {
+    let result = '';
+    for await (const event of this.streamMessage(userMessage, signal)) {
+      if (event.type === 'done') {
+        result = event.text;
+      }
+    }
+    return result;
   }
 
-  private async summarizeToolCalls(contents: Content[]): Promise<Content[]> {
-    const toolCallMessages: Content[] = [];
-    const otherMessages: Content[] = [];
-    const toolCallIndices: number[] = [];
+  /**
+   * Runs the agentic loop for one user message, yielding text deltas and tool
+   * activity as they happen. The final event is always `done`.
+   *
+   * Aborting `signal` interrupts the turn: the model request and running
+   * commands are stopped, calls that did not finish get an "Interrupted by
+   * user" response so history stays valid, and the turn ends with reason
+   * `interrupted`.
+   *
+   * Observers get the same events, plus the turn's lifecycle events.
+   */
+  async *streamMessage(userMessage: string, signal?: AbortSignal): AsyncGenerator<AgentStreamEvent> {
+    const sessionId = this.getSessionId();
+    this.currentTurn = {
+      sessionId,
+      id: uuidv4(),
+      prompt: userMessage,
+    };
+    this.emit({ type: 'turn_start', sessionId, message: userMessage });
+    this.context.startTurn();
+    try {
+      this.history.addMessage({
+        role: 'user',
+        parts: [{ text: userMessage }],
+      });
 
-    for (let i = 0; i < contents.length; i++) {
-      const msg = contents[i];
-      const hasToolCall = (msg.parts ?? []).some(p => p.functionCall || p.functionResponse);
-      if (hasToolCall) {
-        toolCallMessages.push(msg);
-        toolCallIndices.push(i);
-      } else {
-        otherMessages.push(msg);
+      const contents = this.history.getMessages();
+      let done: Extract<AgentStreamEvent, { type: 'done' }>;
+      try {
+        done = yield* tap(this.agenticLoop(contents, signal), event => this.emit(event));
+      } catch (err) {
+        this.emit({ type: 'error', error: String(err) });
+        throw err;
       }
+
+      this.history.addMessage({
+        role: 'model',
+        parts: [{ text: done.text }],
+      });
+      this.history.flushIndex();
+
+      this.emit(done);
+      yield done;
+    } finally {
+      // Also when the turn failed or the consumer stopped early.
+      this.history.flushIndex();
     }
+  }
 
-    if (toolCallMessages.length < 4) {
-      return contents;
+  private generateContent(params: GenerateContentParams, signal?: AbortSignal): Promise<GenerateContentResponse> {
+    return withRetry(abortSignal => this.provider.generateContent(withAbortSignal(params, abortSignal)), {
+      policy: this.retryPolicy,
+      onRetry: this.emitRetry,
+      signal,
+    });
+  }
+
+  /**
+   * Yields the chunks of a streamed response, see `streamWithRetry`. Aborting
+   * `signal` stops the request. Providers without streaming support produce a
+   * single chunk.
+   */
+  private async *streamContent(params: GenerateContentParams, signal?: AbortSignal): AsyncGenerator<GenerateContentResponse> {
+    const provider = this.provider;
+    if (!provider.generateContentStream) {
+      yield await this.generateContent(params, signal);
+      return;
     }
+    yield* streamWithRetry(abortSignal => provider.generateContentStream!(withAbortSignal(params, abortSignal)), {
+      policy: this.retryPolicy,
+      onRetry: this.emitRetry,
+      signal,
+    });
+  }
 
-    console.log(chalk.yellow(`\n[Summarizing ${toolCallMessages.length} tool call messages...]`));
+  /** Snapshots go to the session the turn started in, even while a sub-agent's session is current. */
+  private snapshotFile(filePath: string): void {
+    if (this.currentTurn?.sessionId) {
+      this.checkpoints.snapshot(this.currentTurn.sessionId, this.currentTurn.id, this.currentTurn.prompt, filePath);
+    }
+  }
 
-    const summaryText = toolCallMessages
-      .map(msg => JSON.stringify(msg))
-      .join('\n\n');
+  private getSessionId(): string {
+    return this.history.getCurrentSession()?.id ?? '';
+  }
 
-    const summaryResponse = await withTimeout(
-      generateContentWithRetry(this.ai, {
-        model: this.settings.getModel(),
-        contents: [{ role: 'user', parts: [{ text: `${SUMMARIZE_PROMPT}\n\n${summaryText}` }] }],
-      }),
-      API_TIMEOUT_MS,
-      'Summarization timed out'
-    );
+  /** Read on every request, so edits to memory files apply to the next message. */
+  private getSystemInstruction(): string {
+    let instruction = SYSTEM_INSTRUCTION;
+    const builtin = new Set<string>(Object.values(TOOL_NAMES));
+    const projectTools = this.tools.getDeclarations().filter(decl => !builtin.has(decl.name ?? ''));
+    if (projectTools.length > 0) {
+      instruction += `\n\nProject tools:\n${projectTools.map(decl => `- ${decl.name}: ${decl.description}`).join('\n')}`;
+    }
+    if (this.planMode) {
+      instruction += PLAN_SYSTEM_ADDITION;
+    }
+    const plan = this.getPlan();
+    if (!this.planMode && plan?.status === 'approved') {
+      instruction += `\n\nApproved plan (call update_plan as you work through it):\n\n${formatPlan(plan)}`;
+    }
+    if (this.instructions) {
+      instruction += `\n\n${this.instructions}`;
+    }
+    const memory = this.memory.getInstructions();
+    return memory ? `${instruction}\n\n${memory}` : instruction;
+  }
 
-    const summary = summaryResponse.text ?? 'Tool calls were performed.';
+  /**
+   * Tools offered on the next request. Plan mode offers only read-only tools
+   * and submit_plan; an approved plan adds update_plan.
+   */
+  private getToolDeclarations(): FunctionDeclaration[] {
+    if (this.planMode) {
+      const readOnly = this.tools.getNames().filter(name => this.tools.isReadOnly(name));
+      return [...this.tools.pick(readOnly).getDeclarations(), SUBMIT_PLAN_DECLARATION];
+    }
+    const declarations = this.tools.getDeclarations();
+    return this.getPlan()?.status === 'approved' ? [...declarations, UPDATE_PLAN_DECLARATION] : declarations;
+  }
 
-    const summaryContent: Content = {
+  /**
+   * The system prompt and tool declarations as contents, for counting. The
+   * Gemini API does not count `systemInstruction` or `tools` itself.
+   */
+  private getSystemContents(): Content[] {
+    return [{
       role: 'user',
-      parts: [{ text: `[Previous tool calls summary: ${summary}]` }],
+      parts: [{ text: this.getSystemInstruction() }, { text: JSON.stringify(this.getToolDeclarations()) }],
+    }];
+  }
+
+  /**
+   * Context size of the next request. Uses the usage of the previous response
+   * plus an estimate for messages added since, and counts with the model when
+   * there is no previous response or the estimate says it is time to compact.
+   */
+  private async measureContext(contents: Content[], signal?: AbortSignal): Promise<{ tokens: number; estimated: boolean }> {
+    const model = this.settings.getModel();
+    const estimate = this.context.estimate(this.getSessionId(), contents);
+    if (estimate !== null && estimate < getCompactionThreshold(model)) {
+      return { tokens: estimate, estimated: true };
+    }
+    const [system, history] = await Promise.all([
+      countTokens(this.provider, model, this.getSystemContents(), signal),
+      countTokens(this.provider, model, toModelContents(contents), signal),
+    ]);
+    return { tokens: system.tokens + history.tokens, estimated: system.estimated || history.estimated };
+  }
+
+  /**
+   * Summarize older history in place, keeping recent turns verbatim. The
+   * transcript before compaction is archived with the session. Returns null
+   * when there is nothing worth compacting.
+   */
+  async compactHistory(signal?: AbortSignal): Promise<CompactionResult | null> {
+    const contents = this.history.getMessages();
+    const plan = planCompaction(contents, { keepTurns: COMPACTION_KEEP_TURNS, keepSteps: COMPACTION_KEEP_STEPS });
+    if (!plan) {
+      return null;
+    }
+
+    const summaryResponse = await this.generateContent({
+      model: this.settings.getModel(),
+      contents: [{
+        role: 'user',
+        parts: [{ text: `${SUMMARIZE_PROMPT}\n\n${transcriptText(plan.span, MAX_SUMMARIZED_RESULT_CHARS)}` }],
+      }],
+    }, signal);
+    if (summaryResponse.usageMetadata) {
+      this.history.addUsage(toUsageRecord(summaryResponse.usageMetadata, this.settings.getModel(), 'compaction'));
+    }
+    const summary = summaryResponse.text ?? 'Earlier messages were omitted.';
+
+    const archivePath = this.history.archiveCurrentSession();
+    const compacted = applyCompaction(plan, summary);
+    this.history.setCurrentSessionMessages(compacted);
+    this.context.invalidate(this.getSessionId());
+
+    return {
+      messagesBefore: contents.length,
+      messagesAfter: compacted.length,
+      summarizedMessages: plan.span.length,
+      archivePath,
     };
+  }
 
-    const result: Content[] = [];
-    let summaryAdded = false;
+  /**
+   * Decide whether a tool call may run, asking the user when the settings do
+   * not decide it.
+   */
+  private async authorize(toolName: string, args: Record<string, unknown>, description: string): Promise<Authorization> {
+    if (isPlanTool(toolName)) {
+      return { denial: null, source: 'none' };
+    }
+    if (this.planMode && this.tools.has(toolName) && !this.tools.isReadOnly(toolName)) {
+      return {
+        denial: `${toolName} is not available in plan mode, which only allows reading. Submit a plan with submit_plan instead.`,
+        source: 'plan_mode',
+      };
+    }
+    if (!this.tools.has(toolName)) {
+      // Nothing to allow; running it returns an unknown tool error.
+      return { denial: null, source: 'none' };
+    }
+    const permissionKey = this.tools.getPermissionKey(toolName);
+    const subject = this.tools.getPermissionSubject(toolName, args, this.projectDir);
 
-    for (let i = 0; i < contents.length; i++) {
-      if (!toolCallIndices.includes(i)) {
-        if (!summaryAdded && toolCallIndices.length > 0 && i > toolCallIndices[toolCallIndices.length - 1]) {
-          result.push(summaryContent);
-          summaryAdded = true;
-        }
-        result.push(contents[i]);
+    let decision = this.settings.evaluate(permissionKey, subject);
+    if (!this.useSavedPermissions && decision === 'allow') {
+      decision = 'ask';
+    }
+
+    if (decision === 'allow') {
+      return { denial: null, source: 'settings' };
+    }
+    if (decision === 'deny') {
+      return { denial: 'Permission denied by settings rule', source: 'settings' };
+    }
+
+    const preview = this.tools.preview(toolName, args, this.projectDir);
+    const permResponse = await this.onPermissionPrompt(permissionKey, args, description, subject, preview);
+    const source = permResponse.source ?? 'user';
+    if (!permResponse.granted) {
+      if (permResponse.denial) {
+        return { denial: permResponse.denial, source };
+      }
+      const denial = permResponse.reason ? `Permission denied by user: ${permResponse.reason}` : 'Permission denied by user';
+      return { denial, source };
+    }
+    if (permResponse.alwaysAllow) {
+      if (permResponse.pattern) {
+        this.settings.allowPattern(permissionKey, permResponse.pattern);
+      } else {
+        this.settings.allowTool(permissionKey);
+      }
+    }
+    return { denial: null, source };
+  }
+
+  /** Handle submit_plan and update_plan, which change the session's plan rather than the project. */
+  private runPlanTool(name: string, args: Record<string, unknown>): ToolResult {
+    if (name === PLAN_TOOL_NAMES.SUBMIT_PLAN) {
+      if (!this.planMode) {
+        return { error: 'submit_plan is only available in plan mode' };
+      }
+      const plan = createPlan(args);
+      if (typeof plan === 'string') {
+        return { error: plan };
       }
+      this.history.savePlan(plan);
+      return { output: `Plan with ${plan.steps.length} steps submitted for review.` };
     }
 
-    if (!summaryAdded) {
-      result.push(summaryContent);
+    const plan = this.getPlan();
+    if (plan?.status !== 'approved') {
+      return { error: 'There is no approved plan to update' };
     }
+    const updated = updatePlan(plan, args);
+    if (typeof updated === 'string') {
+      return { error: updated };
+    }
+    this.history.savePlan(updated);
+    const done = updated.steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+    return {
+      output: updated.status === 'completed'
+        ? 'All steps are finished. The plan is complete.'
+        : `Plan updated: ${done} of ${updated.steps.length} steps finished.`,
+    };
+  }
 
-    console.log(chalk.dim(`[Summarized to ${result.length} messages]`));
+  /**
+   * Run a delegated task in a child agent with a fresh context, recorded as a
+   * sub-session of the current session. The child gets the read-only tools
+   * plus those listed in the sub-agent settings, and shares this agent's
+   * permission prompt and undo history. Its tool calls are reported through
+   * `onOutput`; only its final report is returned.
+   */
+  private async runSubAgent(request: SubAgentRequest, onOutput?: ToolOutputFn, signal?: AbortSignal): Promise<ToolResult> {
+    const parent = this.history.getCurrentSession();
+    if (!parent) {
+      return { error: 'No session to delegate from' };
+    }
+    const subagents = this.settings.getSubagentSettings();
+    const extraTools = new Set(subagents.tools ?? []);
+    const toolNames = this.tools
+      .getNames()
+      .filter(name => name !== TOOL_NAMES.DELEGATE_TASK && (this.tools.isReadOnly(name) || extraTools.has(name)));
+    const maxHops = request.maxHops ?? subagents.maxHops ?? SUBAGENT_MAX_HOPS;
 
-    return result;
+    const session = this.history.createSession(parent.id);
+    try {
+      const child = new Agent({
+        projectDir: this.projectDir,
+        settings: this.settings,
+        history: this.history,
+        onPermissionPrompt: this.onPermissionPrompt,
+        provider: this.provider,
+        useSavedPermissions: this.useSavedPermissions,
+        checkpoints: this.checkpoints,
+        memory: this.memory,
+        tools: this.tools.pick(toolNames),
+        maxHops,
+        instructions: SUBAGENT_INSTRUCTION,
+        beforeWrite: this.beforeWrite,
+        retry: this.retryPolicy,
+        onEvent: event => this.emit({ type: 'subagent', sessionId: session.id, event }),
+      });
+
+      let toolCalls = 0;
+      let lastText = '';
+      let textAfterTool = false;
+      let done: Extract<AgentStreamEvent, { type: 'done' }> | undefined;
+      for await (const event of child.streamMessage(request.task, signal)) {
+        if (event.type === 'tool_call') {
+          toolCalls++;
+          textAfterTool = false;
+          onOutput?.(`[sub-agent] ${event.description}\n`);
+        } else if (event.type === 'text') {
+          lastText = textAfterTool ? lastText + event.text : event.text;
+          textAfterTool = true;
+        } else if (event.type === 'done') {
+          done = event;
+        }
+      }
+
+      if (done?.reason === 'interrupted') {
+        return { error: `${INTERRUPTED_MESSAGE} (sub-session ${session.id.slice(0, 8)})` };
+      }
+      let report = done?.reason === 'complete' ? done.text : lastText.trim() || '(no report)';
+      if (report.length > MAX_SUBAGENT_REPORT_CHARS) {
+        report = `${report.slice(0, MAX_SUBAGENT_REPORT_CHARS)}\n[report truncated]`;
+      }
+      const status =
+        done?.reason === 'complete'
+          ? 'finished'
+          : done?.reason === 'budget'
+            ? `was stopped by the usage budget (${done.text}); its last message follows`
+            : `ran out of its ${maxHops}-hop budget before finishing; its last message follows`;
+      return {
+        output: `Sub-agent ${status} (sub-session ${session.id.slice(0, 8)}, ${toolCalls} tool call${toolCalls === 1 ? '' : 's'}).\n\n${report}`,
+      };
+    } finally {
+      this.history.resumeSession(parent.id);
+    }
   }
 
-  private async agenticLoop(contents: Content[]): Promise<string> {
+  private async *agenticLoop(
+    contents: Content[],
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentStreamEvent, Extract<AgentStreamEvent, { type: 'done' }>> {
     let hops = 0;
     let currentContents = [...contents];
 
-    while (hops < MAX_HOPS) {
+    while (hops < this.maxHops) {
       hops++;
 
-      this.logContextSize(currentContents, hops);
+      if (signal?.aborted) {
+        return interruptedDone('');
+      }
 
-      const contextSize = this.calculateContentSize(currentContents);
-      if (contextSize > MAX_CONTEXT_CHARS) {
-        console.log(chalk.yellow(`\n[Context size ${contextSize} exceeds limit ${MAX_CONTEXT_CHARS}]`));
-        currentContents = await this.summarizeToolCalls(currentContents);
-        this.history.setCurrentSessionMessages(currentContents);
+      const overBudget = this.checkBudget();
+      if (overBudget) {
+        return { type: 'done', text: overBudget, reason: 'budget' };
       }
 
-      const systemInstruction = this.planMode
-        ? SYSTEM_INSTRUCTION + PLAN_SYSTEM_ADDITION
-        : SYSTEM_INSTRUCTION;
+      const threshold = getCompactionThreshold(this.settings.getModel());
+      let context: { tokens: number; estimated: boolean };
+      try {
+        context = await this.measureContext(currentContents, signal);
+      } catch (err) {
+        if (signal?.aborted) {
+          return interruptedDone('');
+        }
+        throw err;
+      }
+      this.emit({
+        type: 'hop',
+        hop: hops,
+        messages: currentContents.length,
+        tokens: context.tokens,
+        threshold,
+        estimated: context.estimated,
+      });
 
-      const response = await withTimeout(
-        generateContentWithRetry(this.ai, {
+      if (context.tokens > threshold) {
+        this.emit({ type: 'compaction_start', tokens: context.tokens, threshold });
+        let compaction: CompactionResult | null;
+        try {
+          compaction = await this.compactHistory(signal);
+        } catch (err) {
+          if (signal?.aborted) {
+            return interruptedDone('');
+          }
+          throw err;
+        }
+        if (compaction) {
+          currentContents = [...this.history.getMessages()];
+        }
+        this.emit({ type: 'compaction', result: compaction });
+      }
+
+      const systemInstruction = this.getSystemInstruction();
+
+      const stream = this.streamContent(
+        {
           model: this.settings.getModel(),
-          contents: currentContents,
+          contents: toModelContents(currentContents),
           config: {
-            tools: [{ functionDeclarations: TOOL_DECLARATIONS }],
+            tools: [{ functionDeclarations: this.getToolDeclarations() }],
             systemInstruction,
           },
-        }),
-        API_TIMEOUT_MS,
-        `API request timed out after ${API_TIMEOUT_MS / 1000} seconds`
+        },
+        signal
       );
 
-      const funcCalls = response.functionCalls;
-      const modelContent = response.candidates?.[0]?.content;
+      const parts: Part[] = [];
+      let text = '';
+      let usage: UsageMetadata | undefined;
+      try {
+        for await (const chunk of stream) {
+          usage = chunk.usageMetadata ?? usage;
+          for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+            if (part.text && !part.thought) {
+              text += part.text;
+              yield { type: 'text', text: part.text };
+            }
+            appendStreamedPart(parts, part);
+          }
+        }
+      } catch (err) {
+        if (signal?.aborted) {
+          // The partial response is dropped; only its text is kept in the final message.
+          return interruptedDone(text);
+        }
+        throw err;
+      }
 
-      if (!funcCalls || funcCalls.length === 0) {
-        return response.text ?? 'No response from agent.';
+      if (usage) {
+        // The response becomes the next message, in history or via streamMessage.
+        this.context.record(this.getSessionId(), currentContents.length + 1, usage);
+        this.history.addUsage(toUsageRecord(usage, this.settings.getModel(), 'turn', hops));
       }
 
-      if (modelContent) {
-        this.history.addMessage(modelContent);
-        currentContents.push(modelContent);
+      const funcCalls = parts.flatMap(part => (part.functionCall ? [part.functionCall] : []));
+      this.emit({ type: 'model_response', hop: hops, text, functionCalls: funcCalls, usage });
+
+      if (funcCalls.length === 0) {
+        return { type: 'done', text: text || 'No response from agent.', reason: 'complete' };
       }
 
+      const modelContent: Content = { role: 'model', parts };
+      this.history.addMessage(modelContent);
+      currentContents.push(modelContent);
+
+      // Permission prompts come one at a time, before anything runs.
+      const calls: PendingCall[] = [];
       for (const fc of funcCalls) {
         const args = fc.args ?? {};
         const toolName = fc.name ?? 'unknown';
-        const permissionKey = TOOL_PERMISSIONS[toolName] ?? toolName;
-        const description = getToolDescription(toolName, args);
+        const description = isPlanTool(toolName)
+          ? describePlanCall(toolName, args)
+          : this.tools.describe(toolName, args);
+        yield { type: 'tool_call', name: toolName, args, description };
+        const authorized = signal?.aborted ? null : await this.authorize(toolName, args, description);
+        // Every call gets a response, also those left after an interruption.
+        const decision: Authorization = signal?.aborted
+          ? { denial: INTERRUPTED_MESSAGE, source: 'interrupted' }
+          : authorized!;
+        this.emit({
+          type: 'permission',
+          name: toolName,
+          args,
+          granted: decision.denial === null,
+          source: decision.source,
+          reason: decision.denial ?? undefined,
+        });
+        const checked = decision.source !== 'none' && decision.source !== 'interrupted';
+        calls.push({
+          name: toolName,
+          args,
+          denial: decision.denial,
+          permission: checked ? { granted: decision.denial === null, source: decision.source } : undefined,
+        });
+      }
 
-        const hasPermission = this.settings.isAllowed(permissionKey);
-        let granted = hasPermission;
+      const responseParts: Part[] = [];
+      let planChanged = false;
+      let submitted = false;
+      const groups = groupCalls(calls, call => call.denial !== null || this.tools.isReadOnly(call.name));
+      for (const group of groups) {
+        const results = yield* streamToolOutput(
+          group.map(call => ({
+            name: call.name,
+            run: async onOutput =>
+              call.denial !== null
+                ? { error: call.denial }
+                : signal?.aborted
+                ? { error: INTERRUPTED_MESSAGE }
+                : isPlanTool(call.name)
+                ? this.runPlanTool(call.name, call.args)
+                : this.tools.execute(call.name, call.args, {
+                    projectDir: this.projectDir,
+                    onOutput,
+                    beforeWrite: this.beforeWrite,
+                    runSubAgent: request => this.runSubAgent(request, onOutput, signal),
+                    signal,
+                  }),
+          }))
+        );
 
-        if (!hasPermission) {
-          const permResponse = await this.onPermissionPrompt(permissionKey, args, description);
-          granted = permResponse.granted;
-          if (granted && permResponse.alwaysAllow) {
-            this.settings.setPermission(permissionKey, { mode: 'allow' });
+        for (const [i, call] of group.entries()) {
+          const result = results[i];
+          const granted = call.denial === null;
+          yield { type: 'tool_result', name: call.name, args: call.args, result, granted };
+          if (isPlanTool(call.name) && !result.error) {
+            planChanged = true;
+            submitted ||= call.name === PLAN_TOOL_NAMES.SUBMIT_PLAN;
           }
+          const response = result.error ? { error: result.error } : { result: result.output };
+          const responsePart: RecordedPart = { functionResponse: { name: call.name, response } };
+          if (call.permission) {
+            responsePart.permission = call.permission;
+          }
+          responseParts.push(responsePart);
         }
+      }
 
-        if (!granted) {
-          const denialMessage = {
-            role: 'user',
-            parts: [{
-              functionResponse: {
-                name: toolName,
-                response: { error: 'Permission denied by user' },
-              },
-            }],
-          };
-          this.history.addMessage(denialMessage);
-          currentContents.push(denialMessage);
-          continue;
-        }
-
-        const result = this.executeTool(toolName, args);
-
-        this.onToolCall?.(toolName, args, result);
-
-        const toolResponse: Content = {
-          role: 'user',
-          parts: [{
-            functionResponse: {
-              name: toolName,
-              response: result.error ? { error: result.error } : { result: result.output },
-            },
-          }],
-        };
+      // All responses to one model turn go back in a single message.
+      const toolResponse: Content = { role: 'user', parts: responseParts };
+      this.history.addMessage(toolResponse);
+      currentContents.push(toolResponse);
 
-        this.history.addMessage(toolResponse);
-        currentContents.push(toolResponse);
+      const plan = planChanged ? this.getPlan() : null;
+      if (plan) {
+        yield { type: 'plan', plan };
+      }
+      if (submitted) {
+        return { type: 'done', text: 'Plan submitted for review.', reason: 'plan' };
+      }
+      if (signal?.aborted) {
+        return interruptedDone('');
       }
     }
 
-    return 'Maximum iterations reached. Please try a more specific request.';
+    return {
+      type: 'done',
+      text: 'Maximum iterations reached. Please try a more specific request.',
+      reason: 'max_hops',
+    };
   }
 
   getHistory(): Content[] {
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolResult } from '../types.js';
+import { WalkEntry, walk } from '../utils/walk.js';
+import { isBinary } from './search.js';
+
+const DEFAULT_RECURSIVE_DEPTH = 3;
+const DEFAULT_MAX_ENTRIES = 500;
+/** Files larger than this are listed without a line count. */
+const MAX_LINE_COUNT_BYTES = 1024 * 1024;
+
+export interface ListDirOptions {
+  /** Extra ignore patterns in .gitignore syntax. */
+  ignore?: string[];
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeFile(absPath: string): string {
+  try {
+    const stat = fs.statSync(absPath);
+    const size = formatSize(stat.size);
+    if (stat.size > MAX_LINE_COUNT_BYTES) {
+      return size;
+    }
+    const buffer = fs.readFileSync(absPath);
+    if (isBinary(buffer)) {
+      return `${size}, binary`;
+    }
+    let lines = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      if (buffer[i] === 10) {
+        lines++;
+      }
+    }
+    if (buffer.length > 0 && buffer[buffer.length - 1] !== 10) {
+      lines++;
+    }
+    return `${size}, ${lines} line${lines === 1 ? '' : 's'}`;
+  } catch (err) {
+    return 'unreadable';
+  }
+}
+
+/** For each entry of a pre-order walk, whether it is the last child of its parent. */
+function lastSiblingFlags(entries: WalkEntry[]): boolean[] {
+  const flags = new Array<boolean>(entries.length);
+  const seenAtDepth: boolean[] = [];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const depth = entries[i].depth;
+    flags[i] = !seenAtDepth[depth];
+    seenAtDepth[depth] = true;
+    // Deeper entries seen so far belong to later subtrees, not to this entry's parent.
+    seenAtDepth.length = depth + 1;
+  }
+  return flags;
+}
+
+function hasVisibleChildren(absPath: string): boolean {
+  try {
+    return fs.readdirSync(absPath).length > 0;
+  } catch (err) {
+    return false;
+  }
+}
+
+/**
+ * List a directory as a tree, skipping `.git` and ignored paths. Recursive
+ * listings stop at `max_depth`; any listing stops at `max_entries` with a
+ * notice so a large project cannot flood the context.
+ */
+export function listDirectory(
+  projectRoot: string,
+  args: Record<string, unknown>,
+  options: ListDirOptions = {}
+): ToolResult {
+  const start = String(args.path ?? '.');
+  const absStart = path.resolve(projectRoot, start);
+  const relStart = path.relative(projectRoot, absStart);
+  if (relStart.startsWith('..') || path.isAbsolute(relStart)) {
+    return { error: 'Path traversal not allowed' };
+  }
+  if (!fs.existsSync(absStart)) {
+    return { error: `Directory not found: ${start}` };
+  }
+  if (!fs.statSync(absStart).isDirectory()) {
+    return { error: `Not a directory: ${start}` };
+  }
+
+  const recursive = Boolean(args.recursive);
+  const maxDepth = recursive ? Math.max(1, Number(args.max_depth) || DEFAULT_RECURSIVE_DEPTH) : 1;
+  const maxEntries = Math.max(1, Number(args.max_entries) || DEFAULT_MAX_ENTRIES);
+  const details = Boolean(args.details);
+
+  const entries: WalkEntry[] = [];
+  let truncated = false;
+  for (const entry of walk(projectRoot, { start: relStart, ignore: options.ignore, maxDepth })) {
+    if (entries.length >= maxEntries) {
+      truncated = true;
+      break;
+    }
+    entries.push(entry);
+  }
+
+  if (entries.length === 0) {
+    return { output: '(empty directory)' };
+  }
+
+  const isLast = lastSiblingFlags(entries);
+  const lines = [start.endsWith('/') ? start : `${start}/`];
+  // Whether the ancestor at each depth was a last child, which decides its guide line.
+  const ancestorsLast: boolean[] = [];
+  let unexpanded = 0;
+
+  entries.forEach((entry, i) => {
+    ancestorsLast.length = entry.depth - 1;
+    const indent = ancestorsLast.map(last => (last ? '    ' : '│   ')).join('');
+    const connector = isLast[i] ? '└── ' : '├── ';
+    let label = entry.isDir ? `${entry.name}/` : entry.name;
+    if (entry.isDir && entry.depth === maxDepth && recursive && hasVisibleChildren(entry.absPath)) {
+      label += ' ...';
+      unexpanded++;
+    } else if (!entry.isDir && details) {
+      label += ` (${describeFile(entry.absPath)})`;
+    }
+    lines.push(indent + connector + label);
+    ancestorsLast.push(isLast[i]);
+  });
+
+  if (truncated) {
+    lines.push(
+      `[Listing stopped after ${maxEntries} entries. Use a narrower path, a smaller max_depth, ` +
+        'glob_files, or raise max_entries.]'
+    );
+  }
+  if (unexpanded > 0) {
+    lines.push(`[${unexpanded} director${unexpanded === 1 ? 'y' : 'ies'} below max_depth ${maxDepth} not expanded]`);
+  }
+  return { output: lines.join('\n') };
+}
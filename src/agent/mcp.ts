@@ -0,0 +1,351 @@
+import { spawn, ChildProcess } from 'child_process';
+import { Socket } from 'net';
+import * as path from 'path';
+import { FunctionDeclaration } from '@google/genai';
+import { INTERRUPTED_MESSAGE, McpServerConfig, ToolResult } from '../types.js';
+import { ToolDefinition } from './registry.js';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'gemini-agent', version: '1.0.0' };
+const REQUEST_TIMEOUT_MS = 60000;
+/** stderr kept per server for error messages. */
+const STDERR_BUFFER_CHARS = 4000;
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** A tool as listed by an MCP server's `tools/list`. */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri?: string; text?: string };
+  uri?: string;
+}
+
+interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/** `mcp__<server>__<tool>`, limited to characters Gemini accepts in function names. */
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${server}__${tool}`.replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function contentText(content: McpContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text ?? '';
+    case 'resource':
+      return content.resource?.text ?? `[resource ${content.resource?.uri ?? ''}]`;
+    case 'resource_link':
+      return `[resource ${content.uri ?? ''}]`;
+    default:
+      return `[${content.type}${content.mimeType ? ` ${content.mimeType}` : ''}]`;
+  }
+}
+
+/** Tool results are returned to the model as text; non-text content is only named. */
+export function toToolResult(result: McpCallResult): ToolResult {
+  let text = (result.content ?? []).map(contentText).join('\n');
+  if (!text && result.structuredContent !== undefined) {
+    text = JSON.stringify(result.structuredContent);
+  }
+  return result.isError ? { error: text || 'Tool call failed' } : { output: text };
+}
+
+/**
+ * A connection to one MCP server over stdio: JSON-RPC messages, one per line,
+ * on the server's stdin and stdout.
+ */
+export class McpClient {
+  readonly name: string;
+  private config: McpServerConfig;
+  private cwd: string;
+  private child: ChildProcess | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private buffer = '';
+  private stderr = '';
+  private exitError: Error | null = null;
+
+  constructor(name: string, config: McpServerConfig, projectDir: string) {
+    this.name = name;
+    this.config = config;
+    this.cwd = path.resolve(projectDir, config.cwd ?? '.');
+  }
+
+  private get timeoutMs(): number {
+    return this.config.timeout ? this.config.timeout * 1000 : REQUEST_TIMEOUT_MS;
+  }
+
+  /** Start the server and complete the initialize handshake. */
+  async connect(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    // A running server must not keep the CLI alive; McpManager stops it on exit.
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as Socket | null)?.unref();
+    }
+
+    child.stdout?.on('data', (data: Buffer) => this.onData(data.toString('utf-8')));
+    child.stderr?.on('data', (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString('utf-8')).slice(-STDERR_BUFFER_CHARS);
+    });
+    // Writes after the server exited are reported through the pending request.
+    child.stdin?.on('error', () => {});
+    child.on('error', err => this.fail(new Error(`Could not start MCP server "${this.name}": ${err.message}`)));
+    child.on('exit', (code, signal) => {
+      const status = signal ? `signal ${signal}` : `code ${code}`;
+      const stderr = this.stderr.trim();
+      this.fail(new Error(`MCP server "${this.name}" exited with ${status}${stderr ? `: ${stderr}` : ''}`));
+    });
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = (await this.request('tools/list', cursor ? { cursor } : {})) as {
+        tools?: McpTool[];
+        nextCursor?: string;
+      };
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /** Aborting `signal` cancels the call on the server and fails it with INTERRUPTED_MESSAGE. */
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolResult> {
+    const result = (await this.request('tools/call', { name, arguments: args }, signal)) as McpCallResult;
+    return toToolResult(result);
+  }
+
+  close(): void {
+    this.fail(new Error(`MCP server "${this.name}" was closed`));
+    if (this.child && this.child.exitCode === null && this.child.signalCode === null) {
+      this.child.stdin?.end();
+      this.child.kill('SIGTERM');
+    }
+    this.child = null;
+  }
+
+  private request(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    if (this.exitError) {
+      return Promise.reject(this.exitError);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error(INTERRUPTED_MESSAGE));
+    }
+    const id = this.nextId++;
+    const promise = new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP server "${this.name}" did not answer ${method} within ${this.timeoutMs / 1000}s`));
+      }, this.timeoutMs);
+      this.pending.set(id, { method, resolve, reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+    if (!signal) {
+      return promise;
+    }
+    const onAbort = () => {
+      const pending = this.pending.get(id);
+      if (pending) {
+        this.pending.delete(id);
+        clearTimeout(pending.timer);
+        this.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id, reason: INTERRUPTED_MESSAGE } });
+        pending.reject(new Error(INTERRUPTED_MESSAGE));
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return promise.finally(() => signal.removeEventListener('abort', onAbort));
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.child?.stdin?.write(JSON.stringify(message) + '\n');
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line) {
+        continue;
+      }
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch (err) {
+        // Servers sometimes log to stdout; anything that is not JSON-RPC is ignored.
+        continue;
+      }
+      this.onMessage(message);
+    }
+  }
+
+  private onMessage(message: JsonRpcMessage): void {
+    if (message.method) {
+      // Requests from the server. Notifications (no id) need no answer.
+      if (message.id !== undefined) {
+        if (message.method === 'ping') {
+          this.send({ jsonrpc: '2.0', id: message.id, result: {} });
+        } else {
+          this.send({
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: -32601, message: `Method not supported: ${message.method}` },
+          });
+        }
+      }
+      return;
+    }
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(message.id as number);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(new Error(`${pending.method} failed: ${message.error.message}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.exitError ??= err;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+export interface McpServerStatus {
+  name: string;
+  connected: boolean;
+  tools: string[];
+  error?: string;
+}
+
+/**
+ * Starts the MCP servers declared in settings and turns their tools into
+ * `mcp__<server>__<tool>` tool definitions. All servers are stopped when the
+ * CLI exits.
+ */
+export class McpManager {
+  private projectDir: string;
+  private servers: Record<string, McpServerConfig>;
+  private clients: McpClient[] = [];
+  private status: McpServerStatus[] = [];
+
+  constructor(projectDir: string, servers: Record<string, McpServerConfig>) {
+    this.projectDir = projectDir;
+    this.servers = servers;
+    process.once('exit', () => this.close());
+  }
+
+  /**
+   * Connect to every server and list its tools. A server that fails to start
+   * is reported in `getStatus()` and contributes no tools.
+   */
+  async start(): Promise<ToolDefinition[]> {
+    const results = await Promise.all(
+      Object.entries(this.servers).map(([name, config]) => this.startServer(name, config))
+    );
+    return results.flat();
+  }
+
+  private async startServer(name: string, config: McpServerConfig): Promise<ToolDefinition[]> {
+    if (config.disabled) {
+      return [];
+    }
+    const client = new McpClient(name, config, this.projectDir);
+    this.clients.push(client);
+    try {
+      await client.connect();
+      const tools = (await client.listTools()).map(tool => this.toDefinition(client, tool, config));
+      this.status.push({ name, connected: true, tools: tools.map(tool => tool.declaration.name ?? '') });
+      return tools;
+    } catch (err) {
+      client.close();
+      this.status.push({ name, connected: false, tools: [], error: err instanceof Error ? err.message : String(err) });
+      return [];
+    }
+  }
+
+  /**
+   * Tools are read-only only when settings list them in `readOnlyTools`. A
+   * server's own `readOnlyHint` is not trusted, as it would let the server
+   * past plan mode and into sub-agents.
+   */
+  private toDefinition(client: McpClient, tool: McpTool, config: McpServerConfig): ToolDefinition {
+    const name = mcpToolName(client.name, tool.name);
+    const { $schema, ...schema } = tool.inputSchema ?? { type: 'object', properties: {} };
+    const declaration: FunctionDeclaration = {
+      name,
+      description: tool.description ?? `${tool.name} from MCP server ${client.name}`,
+      parametersJsonSchema: schema,
+    };
+    return {
+      declaration,
+      readOnly: config.readOnlyTools?.includes(tool.name) ?? false,
+      describe: args => `${client.name}: ${tool.name} ${JSON.stringify(args)}`,
+      // Arguments mean whatever the server makes of them, so there is nothing to match patterns against.
+      subject: () => undefined,
+      execute: (args, context) => client.callTool(tool.name, args, context.signal),
+    };
+  }
+
+  /** Servers in the order they are declared in settings. */
+  getStatus(): McpServerStatus[] {
+    const order = Object.keys(this.servers);
+    return [...this.status].sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+  }
+
+  close(): void {
+    for (const client of this.clients) {
+      client.close();
+    }
+    this.clients = [];
+  }
+}
@@ -0,0 +1,189 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Plan, PlanStep, PlanStepStatus } from '../types.js';
+
+export const PLAN_TOOL_NAMES = {
+  SUBMIT_PLAN: 'submit_plan',
+  UPDATE_PLAN: 'update_plan',
+} as const;
+
+/** Offered in plan mode instead of the tools that change anything. */
+export const SUBMIT_PLAN_DECLARATION: FunctionDeclaration = {
+  name: PLAN_TOOL_NAMES.SUBMIT_PLAN,
+  description: 'Submit the finished plan for the user to approve, edit or reject. Ends your turn.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      summary: {
+        type: Type.STRING,
+        description: 'One or two sentences on what the plan achieves and how.',
+      },
+      steps: {
+        type: Type.ARRAY,
+        description: 'Concrete steps in execution order.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: {
+              type: Type.STRING,
+              description: 'What the step does, e.g. "Add a retry option to HttpClient".',
+            },
+            details: {
+              type: Type.STRING,
+              description: 'Files involved and how the step will be done or verified.',
+            },
+          },
+          required: ['title'],
+        },
+      },
+    },
+    required: ['summary', 'steps'],
+  },
+};
+
+/** Offered while an approved plan is being executed. */
+export const UPDATE_PLAN_DECLARATION: FunctionDeclaration = {
+  name: PLAN_TOOL_NAMES.UPDATE_PLAN,
+  description: 'Record progress on the approved plan. Call it when you start a step and when you finish or skip it.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      step: {
+        type: Type.NUMBER,
+        description: 'Step number, starting at 1.',
+      },
+      status: {
+        type: Type.STRING,
+        enum: ['in_progress', 'done', 'skipped'],
+        description: 'New status of the step.',
+      },
+      note: {
+        type: Type.STRING,
+        description: 'Short note on the outcome, e.g. why the step was skipped.',
+      },
+    },
+    required: ['step', 'status'],
+  },
+};
+
+const CHECKBOXES: Record<PlanStepStatus, string> = {
+  pending: '[ ]',
+  in_progress: '[~]',
+  done: '[x]',
+  skipped: '[-]',
+};
+
+export function isPlanTool(name: string): boolean {
+  return name === PLAN_TOOL_NAMES.SUBMIT_PLAN || name === PLAN_TOOL_NAMES.UPDATE_PLAN;
+}
+
+export function describePlanCall(name: string, args: Record<string, unknown>): string {
+  if (name === PLAN_TOOL_NAMES.SUBMIT_PLAN) {
+    return `Submit plan: ${args.summary}`;
+  }
+  return `Update plan: step ${args.step} ${String(args.status ?? '').replace('_', ' ')}`;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** Build a proposed plan from submit_plan arguments, or return an error message. */
+export function createPlan(args: Record<string, unknown>): Plan | string {
+  const summary = optionalText(args.summary);
+  if (!summary) {
+    return 'summary must be a non-empty string';
+  }
+  const rawSteps = Array.isArray(args.steps) ? args.steps : [];
+  const steps: PlanStep[] = [];
+  for (const raw of rawSteps) {
+    const step = (raw ?? {}) as Record<string, unknown>;
+    const title = optionalText(step.title);
+    if (!title) {
+      return `steps[${steps.length}].title must be a non-empty string`;
+    }
+    steps.push({ title, details: optionalText(step.details), status: 'pending' });
+  }
+  if (steps.length === 0) {
+    return 'steps must contain at least one step';
+  }
+  const now = new Date().toISOString();
+  return { summary, steps, status: 'proposed', createdAt: now, updatedAt: now };
+}
+
+/**
+ * Apply update_plan arguments. The plan is completed once every step is done
+ * or skipped. Returns an error message when the arguments are invalid.
+ */
+export function updatePlan(plan: Plan, args: Record<string, unknown>): Plan | string {
+  const index = typeof args.step === 'number' ? Math.floor(args.step) - 1 : -1;
+  if (index < 0 || index >= plan.steps.length) {
+    return `step must be between 1 and ${plan.steps.length}`;
+  }
+  const status = args.status;
+  if (status !== 'in_progress' && status !== 'done' && status !== 'skipped') {
+    return 'status must be "in_progress", "done" or "skipped"';
+  }
+  const steps = plan.steps.map((step, i): PlanStep =>
+    i === index ? { ...step, status, note: optionalText(args.note) ?? step.note } : step
+  );
+  const finished = steps.every(step => step.status === 'done' || step.status === 'skipped');
+  return { ...plan, steps, status: finished ? 'completed' : plan.status, updatedAt: new Date().toISOString() };
+}
+
+/** The plan as a Markdown checklist, for the system instruction and for editing. */
+export function formatPlan(plan: Plan): string {
+  const lines = [`# ${plan.summary}`, ''];
+  plan.steps.forEach((step, i) => {
+    lines.push(`- ${CHECKBOXES[step.status]} ${i + 1}. ${step.title}`);
+    for (const line of (step.details ?? '').split('\n').filter(Boolean)) {
+      lines.push(`  ${line}`);
+    }
+    if (step.note) {
+      lines.push(`  Note: ${step.note}`);
+    }
+  });
+  return lines.join('\n');
+}
+
+const STEP_LINE = /^\s*(?:[-*]\s*)?(?:\[( |x|X|~|-)\]\s*)?(?:\d+[.)]\s*)?(.*)$/;
+const STEP_START = /^\s*(?:[-*]\s*\[[ xX~-]\]|[-*]|\d+[.)])\s+/;
+
+/**
+ * Read a plan back from the Markdown checklist written by formatPlan, after
+ * the user edited it. Steps start with "- [ ]", "-" or "1."; indented lines
+ * below a step are its details. Returns an error message when no step is left.
+ */
+export function parsePlan(text: string, previous: Plan): Plan | string {
+  let summary = previous.summary;
+  const steps: PlanStep[] = [];
+  for (const line of text.split('\n')) {
+    if (/^#\s+/.test(line)) {
+      summary = line.replace(/^#\s+/, '').trim() || summary;
+      continue;
+    }
+    if (STEP_START.test(line) && !/^\s{2,}/.test(line)) {
+      const [, box, title] = line.match(STEP_LINE) ?? [];
+      if (!title?.trim()) {
+        continue;
+      }
+      const status = (Object.keys(CHECKBOXES) as PlanStepStatus[]).find(
+        key => CHECKBOXES[key] === `[${(box ?? ' ').toLowerCase()}]`
+      );
+      steps.push({ title: title.trim(), status: status ?? 'pending' });
+      continue;
+    }
+    const current = steps[steps.length - 1];
+    const detail = line.trim();
+    if (current && detail) {
+      if (detail.startsWith('Note: ')) {
+        current.note = detail.slice('Note: '.length);
+      } else {
+        current.details = current.details ? `${current.details}\n${detail}` : detail;
+      }
+    }
+  }
+  if (steps.length === 0) {
+    return 'The plan has no steps';
+  }
+  return { ...previous, summary, steps, updatedAt: new Date().toISOString() };
+}
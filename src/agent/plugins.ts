@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { FunctionDeclaration } from '@google/genai';
+import { GEMINI_DIR, TOOLS_DIR, COMMAND_TIMEOUT_MS, MAX_COMMAND_TIMEOUT_MS } from '../types.js';
+import { runCommand } from './processes.js';
+import { ToolDefinition, TOOL_NAME_PATTERN } from './registry.js';
+import { commandResult } from './tools.js';
+
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs'];
+
+/** Loaded through tsx's loader, so they also work when the built CLI runs on plain Node. */
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts'];
+
+/** A tool defined in `.gemini/tools/<name>.json` that runs a shell command. */
+export interface CommandToolSpec {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments. */
+  parameters?: Record<string, unknown>;
+  /** Shell command; `{{arg}}` is replaced with the shell-quoted argument. */
+  command: string;
+  /** Settings key whose permission rules apply. Defaults to the tool name. */
+  permission?: string;
+  /** Timeout in seconds. */
+  timeout?: number;
+  /** The command changes nothing, so it may run alongside other read-only calls. */
+  readOnly?: boolean;
+}
+
+/** What a tool module's default export may be a factory of. */
+export interface ToolModuleContext {
+  projectDir: string;
+}
+
+type ToolModuleFactory = (context: ToolModuleContext) => unknown;
+
+export interface LoadedTools {
+  tools: ToolDefinition[];
+  /** One message per file that could not be loaded. */
+  errors: string[];
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Fill `{{name}}` placeholders with shell-quoted arguments. Missing arguments become ''. */
+export function expandCommand(template: string, args: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, name: string) => {
+    const value = args[name];
+    if (value === undefined || value === null) {
+      return "''";
+    }
+    return shellQuote(typeof value === 'string' ? value : JSON.stringify(value));
+  });
+}
+
+export function createCommandTool(spec: CommandToolSpec): ToolDefinition {
+  if (typeof spec.command !== 'string' || !spec.command.trim()) {
+    throw new Error('"command" must be a non-empty string');
+  }
+  if (typeof spec.description !== 'string') {
+    throw new Error('"description" must be a string');
+  }
+  const timeoutMs = spec.timeout
+    ? Math.min(spec.timeout * 1000, MAX_COMMAND_TIMEOUT_MS)
+    : COMMAND_TIMEOUT_MS;
+  const declaration: FunctionDeclaration = {
+    name: spec.name,
+    description: spec.description,
+    parametersJsonSchema: spec.parameters ?? { type: 'object', properties: {} },
+  };
+
+  return {
+    declaration,
+    permission: spec.permission,
+    readOnly: spec.readOnly === true,
+    describe: args => `${spec.name}: ${expandCommand(spec.command, args)}`,
+    subject: args => ({ kind: 'command', value: expandCommand(spec.command, args) }),
+    execute: async (args, context) => {
+      const outcome = await runCommand(expandCommand(spec.command, args), {
+        cwd: path.resolve(context.projectDir),
+        timeoutMs,
+        onOutput: context.onOutput,
+        signal: context.signal,
+      });
+      return commandResult(outcome, timeoutMs);
+    },
+  };
+}
+
+function isToolDefinition(value: unknown): value is ToolDefinition {
+  const tool = value as ToolDefinition | null;
+  return Boolean(tool && typeof tool === 'object' && tool.declaration?.name && typeof tool.execute === 'function');
+}
+
+async function importModule(filePath: string): Promise<unknown> {
+  const url = pathToFileURL(filePath).href;
+  if (TYPESCRIPT_EXTENSIONS.includes(path.extname(filePath))) {
+    const { tsImport } = await import('tsx/esm/api');
+    return tsImport(url, import.meta.url);
+  }
+  return import(url);
+}
+
+function defaultExport(mod: unknown): unknown {
+  if (!mod || typeof mod !== 'object' || !('default' in mod)) {
+    return undefined;
+  }
+  const exported = mod.default;
+  // Files outside an ESM package are compiled as CommonJS, whose exports object becomes the default.
+  if (exported && typeof exported === 'object' && !Array.isArray(exported) && 'default' in exported) {
+    return exported.default;
+  }
+  return exported;
+}
+
+async function loadModule(filePath: string, projectDir: string): Promise<ToolDefinition[]> {
+  let exported = defaultExport(await importModule(filePath));
+  if (typeof exported === 'function') {
+    exported = await (exported as ToolModuleFactory)({ projectDir });
+  }
+  const tools: unknown[] = Array.isArray(exported) ? exported : [exported];
+  if (!tools.every(isToolDefinition)) {
+    throw new Error('default export must be a tool definition, an array of them, or a function returning them');
+  }
+  return tools;
+}
+
+function loadCommandTool(filePath: string): ToolDefinition {
+  const spec = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CommandToolSpec;
+  spec.name ??= path.basename(filePath, '.json');
+  return createCommandTool(spec);
+}
+
+/**
+ * Load project tools from `.gemini/tools/`: `*.json` command-backed tools and
+ * TypeScript/JavaScript modules whose default export is a `ToolDefinition`,
+ * an array of them, or a factory. A file that fails to load is reported in
+ * `errors` and skipped.
+ */
+export async function loadCustomTools(projectDir: string): Promise<LoadedTools> {
+  const toolsDir = path.join(projectDir, GEMINI_DIR, TOOLS_DIR);
+  const result: LoadedTools = { tools: [], errors: [] };
+  if (!fs.existsSync(toolsDir)) {
+    return result;
+  }
+
+  const files = fs.readdirSync(toolsDir).filter(file => !file.endsWith('.d.ts')).sort();
+  for (const file of files) {
+    const filePath = path.join(toolsDir, file);
+    const extension = path.extname(file);
+    try {
+      let tools: ToolDefinition[];
+      if (extension === '.json') {
+        tools = [loadCommandTool(filePath)];
+      } else if (MODULE_EXTENSIONS.includes(extension)) {
+        tools = await loadModule(filePath, projectDir);
+      } else {
+        continue;
+      }
+      for (const tool of tools) {
+        if (!TOOL_NAME_PATTERN.test(tool.declaration.name ?? '')) {
+          throw new Error(`invalid tool name ${JSON.stringify(tool.declaration.name)}`);
+        }
+      }
+      result.tools.push(...tools);
+    } catch (err) {
+      result.errors.push(`${path.join(GEMINI_DIR, TOOLS_DIR, file)}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,269 @@
+import { spawn, ChildProcess } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import { MAX_COMMAND_OUTPUT_CHARS } from '../types.js';
+
+const KILL_GRACE_MS = 2000;
+/** Output kept in memory per background process. Older output is dropped. */
+const BACKGROUND_BUFFER_CHARS = 200000;
+
+export interface CommandOutcome {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Combined stdout and stderr, shortened like `truncateOutput` does. */
+  output: string;
+  timedOut: boolean;
+  /** Stopped through `signal`. */
+  aborted: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  /** Receives stdout and stderr chunks as they arrive. */
+  onOutput?: (chunk: string) => void;
+  /** Stops the command and its children. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Keep the beginning and end of long output, where build tools print what
+ * they ran and how it ended.
+ */
+export function truncateOutput(output: string, maxChars: number = MAX_COMMAND_OUTPUT_CHARS): string {
+  if (output.length <= maxChars) {
+    return output;
+  }
+  const head = clampToCodePoint(output, Math.floor(maxChars / 2), -1);
+  const tail = clampToCodePoint(output, output.length - (maxChars - head), 1);
+  return joinTruncated(output.slice(0, head), tail - head, output.slice(tail));
+}
+
+/** Move `index` off the middle of a surrogate pair, back or forward, so slicing there keeps characters whole. */
+function clampToCodePoint(text: string, index: number, direction: 1 | -1): number {
+  const code = text.charCodeAt(index);
+  const previous = text.charCodeAt(index - 1);
+  const splitsPair = code >= 0xdc00 && code <= 0xdfff && previous >= 0xd800 && previous <= 0xdbff;
+  return splitsPair ? index + direction : index;
+}
+
+function joinTruncated(head: string, omitted: number, tail: string): string {
+  return omitted > 0 ? `${head}\n\n... [${omitted} characters truncated] ...\n\n${tail}` : head + tail;
+}
+
+function spawnShell(command: string, cwd: string): ChildProcess {
+  return spawn(command, {
+    cwd,
+    shell: true,
+    // Own process group, so a timeout or kill also stops the command's children.
+    detached: process.platform !== 'win32',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+function killTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+  try {
+    if (process.platform !== 'win32') {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch (err) {
+    child.kill(signal);
+  }
+}
+
+function terminate(child: ChildProcess): void {
+  killTree(child, 'SIGTERM');
+  setTimeout(() => killTree(child, 'SIGKILL'), KILL_GRACE_MS).unref();
+}
+
+/** Run a shell command to completion, streaming its combined output. */
+export function runCommand(command: string, options: RunCommandOptions): Promise<CommandOutcome> {
+  return new Promise((resolve, reject) => {
+    const child = spawnShell(command, options.cwd);
+    // Output is shortened as it arrives, so a chatty command cannot fill memory.
+    const headChars = Math.floor(MAX_COMMAND_OUTPUT_CHARS / 2);
+    const tailChars = MAX_COMMAND_OUTPUT_CHARS - headChars;
+    let head = '';
+    let headFull = false;
+    let tail = '';
+    let omitted = 0;
+    let timedOut = false;
+    let aborted = false;
+
+    const onData = (chunk: string) => {
+      options.onOutput?.(chunk);
+      let rest = chunk;
+      if (!headFull) {
+        const cut = clampToCodePoint(chunk, headChars - head.length, -1);
+        head += chunk.slice(0, cut);
+        rest = chunk.slice(cut);
+        headFull = rest.length > 0;
+      }
+      tail += rest;
+      if (tail.length > tailChars) {
+        const start = clampToCodePoint(tail, tail.length - tailChars, 1);
+        omitted += start;
+        tail = tail.slice(start);
+      }
+    };
+    // Decoded per stream, so characters split across chunks stay whole.
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminate(child);
+    }, options.timeoutMs);
+    const onAbort = () => {
+      aborted = true;
+      terminate(child);
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    child.on('error', err => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(err);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({ exitCode, signal, output: joinTruncated(head, omitted, tail), timedOut, aborted });
+    });
+  });
+}
+
+export interface BackgroundProcess {
+  id: string;
+  command: string;
+  startedAt: string;
+  running: boolean;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+interface TrackedProcess extends BackgroundProcess {
+  child: ChildProcess;
+  output: string;
+  /** Characters dropped from the front of `output`. */
+  dropped: number;
+  /** Absolute output position up to which output was already returned. */
+  readPosition: number;
+}
+
+/**
+ * Tracks commands started in the background (dev servers, watchers). All of
+ * them are stopped when the CLI exits.
+ */
+export class ProcessManager {
+  private processes = new Map<string, TrackedProcess>();
+
+  constructor() {
+    process.once('exit', () => this.killAll());
+  }
+
+  start(command: string, cwd: string): BackgroundProcess {
+    const child = spawnShell(command, cwd);
+    const tracked: TrackedProcess = {
+      id: uuidv4().slice(0, 8),
+      command,
+      startedAt: new Date().toISOString(),
+      running: true,
+      exitCode: null,
+      signal: null,
+      child,
+      output: '',
+      dropped: 0,
+      readPosition: 0,
+    };
+
+    const onData = (chunk: string) => {
+      tracked.output += chunk;
+      if (tracked.output.length > BACKGROUND_BUFFER_CHARS) {
+        const excess = clampToCodePoint(tracked.output, tracked.output.length - BACKGROUND_BUFFER_CHARS, 1);
+        tracked.output = tracked.output.slice(excess);
+        tracked.dropped += excess;
+      }
+    };
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('error', err => {
+      tracked.output += `\n[failed to start: ${err.message}]\n`;
+      tracked.running = false;
+    });
+    child.on('close', (exitCode, signal) => {
+      tracked.running = false;
+      tracked.exitCode = exitCode;
+      tracked.signal = signal;
+    });
+
+    // Background processes must not keep the CLI alive; they are killed on exit.
+    child.unref();
+    for (const stream of [child.stdout, child.stderr]) {
+      (stream as unknown as { unref?: () => void } | null)?.unref?.();
+    }
+
+    this.processes.set(tracked.id, tracked);
+    return this.describe(tracked);
+  }
+
+  /** Status plus output produced since the previous read. */
+  read(id: string): { process: BackgroundProcess; output: string } | null {
+    const tracked = this.processes.get(id);
+    if (!tracked) {
+      return null;
+    }
+    const start = Math.max(tracked.readPosition - tracked.dropped, 0);
+    const output = tracked.output.slice(start);
+    tracked.readPosition = tracked.dropped + tracked.output.length;
+    return { process: this.describe(tracked), output };
+  }
+
+  kill(id: string): BackgroundProcess | null {
+    const tracked = this.processes.get(id);
+    if (!tracked) {
+      return null;
+    }
+    if (tracked.running) {
+      terminate(tracked.child);
+    }
+    return this.describe(tracked);
+  }
+
+  list(): BackgroundProcess[] {
+    return [...this.processes.values()].map(tracked => this.describe(tracked));
+  }
+
+  killAll(): void {
+    for (const tracked of this.processes.values()) {
+      if (tracked.running) {
+        killTree(tracked.child, 'SIGKILL');
+      }
+    }
+  }
+
+  private describe(tracked: TrackedProcess): BackgroundProcess {
+    return {
+      id: tracked.id,
+      command: tracked.command,
+      startedAt: tracked.startedAt,
+      running: tracked.running,
+      exitCode: tracked.exitCode,
+      signal: tracked.signal,
+    };
+  }
+}
+
+export const backgroundProcesses = new ProcessManager();
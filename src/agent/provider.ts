@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { GoogleGenAI, Content, FunctionCall, Part } from '@google/genai';
+
+export interface GenerateContentParams {
+  model: string;
+  contents: Content[];
+  config?: {
+    tools?: Array<{ functionDeclarations: unknown[] }>;
+    systemInstruction?: string;
+    /** Aborts the request, e.g. when it timed out. */
+    abortSignal?: AbortSignal;
+  };
+}
+
+export interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface GenerateContentResponse {
+  text?: string;
+  functionCalls?: FunctionCall[];
+  candidates?: Array<{ content?: Content }>;
+  /** Token usage of the request. Streamed responses carry it on the final chunks. */
+  usageMetadata?: UsageMetadata;
+}
+
+export interface CountTokensParams {
+  model: string;
+  contents: Content[];
+  config?: {
+    /** Aborts the request when it timed out or the turn was interrupted. */
+    abortSignal?: AbortSignal;
+  };
+}
+
+/**
+ * Backend that the agentic loop talks to. Implementations only need to turn a
+ * request into a single response; retries and timeouts are handled by the Agent,
+ * which passes `config.abortSignal` to stop requests it gave up on.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  generateContent(params: GenerateContentParams): Promise<GenerateContentResponse>;
+  /** Optional streaming variant. Each chunk carries the parts produced since the previous one. */
+  generateContentStream?(params: GenerateContentParams): Promise<AsyncIterable<GenerateContentResponse>>;
+  /** Optional exact token count. Without it the Agent estimates from character counts. */
+  countTokens?(params: CountTokensParams): Promise<{ totalTokens?: number }>;
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string | undefined = process.env.GEMINI_API_KEY) {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY not set');
+    }
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(params: GenerateContentParams): Promise<GenerateContentResponse> {
+    return this.ai.models.generateContent(params as any);
+  }
+
+  async generateContentStream(params: GenerateContentParams): Promise<AsyncIterable<GenerateContentResponse>> {
+    return this.ai.models.generateContentStream(params as any);
+  }
+
+  async countTokens(params: CountTokensParams): Promise<{ totalTokens?: number }> {
+    return this.ai.models.countTokens(params);
+  }
+}
+
+export interface ScriptedResponse {
+  text?: string;
+  functionCalls?: FunctionCall[];
+  usageMetadata?: UsageMetadata;
+}
+
+function toResponse(scripted: ScriptedResponse): GenerateContentResponse {
+  const functionCalls = scripted.functionCalls ?? [];
+  const parts: Part[] = [];
+  if (scripted.text) {
+    parts.push({ text: scripted.text });
+  }
+  for (const fc of functionCalls) {
+    parts.push({ functionCall: fc });
+  }
+
+  return {
+    text: scripted.text,
+    functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+    candidates: [{ content: { role: 'model', parts } }],
+    usageMetadata: scripted.usageMetadata,
+  };
+}
+
+/**
+ * Replays canned responses in order. Useful for running the agentic loop
+ * offline, in CI, or in tests without an API key.
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  private responses: ScriptedResponse[];
+  private index = 0;
+  private requests: GenerateContentParams[] = [];
+
+  constructor(responses: ScriptedResponse[]) {
+    this.responses = responses;
+  }
+
+  /**
+   * Load a script from a JSON file containing either an array of responses
+   * or an object of the form `{ "responses": [...] }`.
+   */
+  static fromFile(filePath: string): ScriptedProvider {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const parsed = JSON.parse(content);
+    const responses = Array.isArray(parsed) ? parsed : parsed?.responses;
+    if (!Array.isArray(responses)) {
+      throw new Error(`Invalid script file ${filePath}: expected an array of responses`);
+    }
+    return new ScriptedProvider(responses);
+  }
+
+  async generateContent(params: GenerateContentParams): Promise<GenerateContentResponse> {
+    this.requests.push(params);
+    if (this.index >= this.responses.length) {
+      throw new Error(`Scripted provider exhausted after ${this.responses.length} responses`);
+    }
+    return toResponse(this.responses[this.index++]);
+  }
+
+  async generateContentStream(params: GenerateContentParams): Promise<AsyncIterable<GenerateContentResponse>> {
+    const response = await this.generateContent(params);
+    return (async function* () {
+      yield response;
+    })();
+  }
+
+  getRequests(): GenerateContentParams[] {
+    return this.requests;
+  }
+
+  getRemainingCount(): number {
+    return this.responses.length - this.index;
+  }
+}
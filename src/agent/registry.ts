@@ -0,0 +1,152 @@
+import * as path from 'path';
+import { FunctionDeclaration } from '@google/genai';
+import { ToolResult, PermissionSubject, FileChangePreview } from '../types.js';
+
+/** Receives output of a running tool as it is produced. */
+export type ToolOutputFn = (chunk: string) => void;
+
+/** What a tool gets to work with when it runs. */
+export interface ToolContext {
+  projectDir: string;
+  /** Streams output while the tool runs, e.g. for long commands. */
+  onOutput?: ToolOutputFn;
+  /** Call with the absolute path of a file right before modifying it, so it can be undone. */
+  beforeWrite?: (filePath: string) => void;
+  /** Runs a task in a sub-agent and returns its report. Set by the agent for delegate_task. */
+  runSubAgent?: (request: SubAgentRequest) => Promise<ToolResult>;
+  /** Aborted when the user interrupts the turn; long-running tools should stop then. */
+  signal?: AbortSignal;
+}
+
+export interface SubAgentRequest {
+  task: string;
+  /** Hop budget. Defaults to the sub-agent settings. */
+  maxHops?: number;
+}
+
+/**
+ * A tool the model can call. Built-in tools and tools loaded from
+ * `.gemini/tools/` are both described this way.
+ */
+export interface ToolDefinition {
+  declaration: FunctionDeclaration;
+  /** Settings key whose permission rules apply. Defaults to the tool name. */
+  permission?: string;
+  /** The tool changes nothing, so calls to it may run at the same time as other read-only calls. */
+  readOnly?: boolean;
+  /** One-line summary shown when asking for permission. */
+  describe?: (args: Record<string, unknown>) => string;
+  /**
+   * Value permission patterns are matched against. Defaults to the
+   * project-relative `path` argument, if there is one.
+   */
+  subject?: (args: Record<string, unknown>, projectDir: string) => PermissionSubject | undefined;
+  /** Content the call would write, shown as a diff when asking for permission. */
+  preview?: (args: Record<string, unknown>, projectDir: string) => FileChangePreview | undefined;
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<ToolResult> | ToolResult;
+}
+
+export const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_.-]{0,63}$/;
+
+function pathSubject(args: Record<string, unknown>, projectDir: string): PermissionSubject | undefined {
+  if (typeof args.path !== 'string') {
+    return undefined;
+  }
+  const projectRoot = path.resolve(projectDir);
+  const relative = path.relative(projectRoot, path.resolve(projectRoot, args.path));
+  return { kind: 'path', value: relative.split(path.sep).join('/') || '.' };
+}
+
+/**
+ * The tools offered to the model. Declarations sent to the model, permission
+ * keys, descriptions and execution all come from here.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(tool: ToolDefinition): void {
+    const name = tool.declaration.name;
+    if (!name || !TOOL_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid tool name: ${JSON.stringify(name)}`);
+    }
+    if (this.tools.has(name)) {
+      throw new Error(`Tool already registered: ${name}`);
+    }
+    this.tools.set(name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  getNames(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /** A registry with the named tools of this one. Unknown names are ignored. */
+  pick(names: string[]): ToolRegistry {
+    const picked = new ToolRegistry();
+    for (const name of names) {
+      const tool = this.tools.get(name);
+      if (tool) {
+        picked.register(tool);
+      }
+    }
+    return picked;
+  }
+
+  getDeclarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(tool => tool.declaration);
+  }
+
+  getPermissionKey(name: string): string {
+    return this.tools.get(name)?.permission ?? name;
+  }
+
+  isReadOnly(name: string): boolean {
+    return this.tools.get(name)?.readOnly === true;
+  }
+
+  describe(name: string, args: Record<string, unknown>): string {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return `Unknown tool: ${name}`;
+    }
+    return tool.describe ? tool.describe(args) : `${name} ${JSON.stringify(args)}`;
+  }
+
+  /**
+   * The value permission rules are matched against for a tool call, or
+   * undefined when the tool has nothing to match. Paths are made relative to
+   * the project root with forward slashes.
+   */
+  getPermissionSubject(name: string, args: Record<string, unknown>, projectDir: string): PermissionSubject | undefined {
+    const tool = this.tools.get(name);
+    return tool?.subject ? tool.subject(args, projectDir) : pathSubject(args, projectDir);
+  }
+
+  preview(name: string, args: Record<string, unknown>, projectDir: string): FileChangePreview | undefined {
+    try {
+      return this.tools.get(name)?.preview?.(args, projectDir);
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /** Run a tool. Unknown tools and thrown errors become error results. */
+  async execute(name: string, args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { error: `Unknown tool: ${name}` };
+    }
+    try {
+      return await tool.execute(args, context);
+    } catch (err) {
+      return { error: String(err) };
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import { API_TIMEOUT_MS, RetrySettings } from '../types.js';
+
+export type RetryPolicy = Required<RetrySettings>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  jitter: 0.3,
+  timeoutMs: API_TIMEOUT_MS,
+};
+
+export type RetryReason = 'rate_limit' | 'server_error' | 'network' | 'timeout';
+
+export interface RetryEvent {
+  /** The retry about to be made, starting at 1. */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: RetryReason;
+  error: string;
+}
+
+export type RetryFn = (event: RetryEvent) => void;
+
+/** Thrown when an attempt takes longer than the policy's `timeoutMs`. */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/** The fields of thrown API and network errors that retry decisions read. Any of them may be missing. */
+interface ErrorFields {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  code?: unknown;
+  cause?: unknown;
+  error?: unknown;
+  headers?: unknown;
+  response?: unknown;
+}
+
+function errorFields(value: unknown): ErrorFields {
+  return value && typeof value === 'object' ? (value as ErrorFields) : {};
+}
+
+function errorMessage(error: unknown): string {
+  const message = errorFields(error).message;
+  return typeof message === 'string' ? message : '';
+}
+
+/** A header from a fetch `Headers`-like object, if there is one. */
+function headerValue(headers: unknown, name: string): string | undefined {
+  if (headers && typeof headers === 'object' && 'get' in headers && typeof headers.get === 'function') {
+    const value: unknown = headers.get(name);
+    return typeof value === 'string' ? value : undefined;
+  }
+  return undefined;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const fields = errorFields(error);
+  const status = fields.status ?? fields.code ?? errorFields(fields.error).code;
+  if (typeof status === 'number') {
+    return status;
+  }
+  // Status codes in API error messages, e.g. `got status: 503 Service Unavailable` or `"code": 429`.
+  const match = errorMessage(error).match(/(?:"code"\s*:\s*|got status:?\s*)(429|5\d\d)\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Why an error is worth retrying, or null when it is not. */
+export function classifyError(error: unknown): RetryReason | null {
+  if (error instanceof TimeoutError) {
+    return 'timeout';
+  }
+  const message = errorMessage(error);
+  const status = errorStatus(error);
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    return 'rate_limit';
+  }
+  if ((status !== undefined && status >= 500 && status < 600) || /"status"\s*:\s*"(UNAVAILABLE|INTERNAL)"/.test(message)) {
+    return 'server_error';
+  }
+  for (let cause = error; cause; cause = errorFields(cause).cause) {
+    const code = errorFields(cause).code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return 'network';
+    }
+  }
+  if (errorFields(error).name === 'TypeError' && message === 'fetch failed') {
+    return 'network';
+  }
+  return null;
+}
+
+/**
+ * The delay the server asked for, from a Retry-After header, a
+ * google.rpc.RetryInfo `retryDelay` ("38s") or a "retry in 12.5s" message.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const fields = errorFields(error);
+  const header =
+    headerValue(fields.headers, 'retry-after') ?? headerValue(errorFields(fields.response).headers, 'retry-after');
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  const message = errorMessage(error);
+  const hint = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return hint ? Math.ceil(Number(hint[1]) * 1000) : undefined;
+}
+
+/** Exponential backoff for the given retry (starting at 1), with jitter. */
+export function backoffDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** (attempt - 1));
+  const jitter = base * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Request aborted');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle `promise` within `ms`, or abort `controller` and reject with a
+ * TimeoutError, so the request behind it stops instead of running on. Also
+ * rejects as soon as `controller` is aborted from elsewhere.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string, controller?: AbortController): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutError(message);
+        controller?.abort(error);
+        reject(error);
+      }, ms);
+      if (controller) {
+        onAbort = () => reject(abortError(controller.signal));
+        if (controller.signal.aborted) {
+          onAbort();
+        } else {
+          controller.signal.addEventListener('abort', onAbort, { once: true });
+        }
+      }
+    }),
+  ]).finally(() => {
+    clearTimeout(timer);
+    if (onAbort) {
+      controller?.signal.removeEventListener('abort', onAbort);
+    }
+  });
+}
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  onRetry?: RetryFn;
+  /** Cancels the current attempt and any further ones. */
+  signal?: AbortSignal;
+  timeoutMessage?: string;
+}
+
+/**
+ * Run `request` until it succeeds, retrying rate limits, server errors,
+ * network errors and timeouts with exponential backoff. Each attempt gets its
+ * own signal, aborted when the attempt times out or `options.signal` aborts;
+ * an aborted `options.signal` rejects with its reason and is never retried.
+ * A delay asked for by the server is used when it is longer than the backoff.
+ */
+export async function withRetry<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const timeoutMessage = options.timeoutMessage ?? `API request timed out after ${policy.timeoutMs / 1000} seconds`;
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw abortError(options.signal);
+    }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await withTimeout(request(controller.signal), policy.timeoutMs, timeoutMessage, controller);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
+      const reason = classifyError(error);
+      if (!reason || attempt >= policy.maxRetries) {
+        throw error;
+      }
+      const backoff = backoffDelay(policy, attempt + 1);
+      const hinted = getRetryAfterMs(error);
+      const delayMs = hinted !== undefined ? Math.max(hinted, backoff) : backoff;
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs,
+        reason,
+        error: errorMessage(error) || String(error),
+      });
+      await sleep(delayMs, options.signal);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/** Close `iterator` once `signal` aborts, so a stalled stream stops reading. */
+function closeOnAbort(iterator: AsyncIterator<unknown>, signal: AbortSignal): void {
+  const close = () => {
+    iterator.return?.().catch(() => {});
+  };
+  if (signal.aborted) {
+    close();
+  } else {
+    signal.addEventListener('abort', close, { once: true });
+  }
+}
+
+export interface StreamRetryOptions extends RetryOptions {
+  /** Error message when a chunk after the first takes longer than the policy's `timeoutMs`. */
+  stallMessage?: string;
+}
+
+/**
+ * Yield the chunks of a streamed request. Opening the stream and reading its
+ * first chunk are retried like `withRetry`; after that each chunk must arrive
+ * within the policy's timeout. The signal given to `open` stays linked to
+ * `options.signal` for the life of the stream: it aborts, and the stream is
+ * closed, on a timeout, on an abort, and when the consumer stops early.
+ */
+export async function* streamWithRetry<T>(
+  open: (signal: AbortSignal) => Promise<AsyncIterable<T>>,
+  options: StreamRetryOptions = {}
+): AsyncGenerator<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const stallMessage = options.stallMessage ?? `API response stalled for ${policy.timeoutMs / 1000} seconds`;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  try {
+    const { iterator, first } = await withRetry(
+      async attemptSignal => {
+        // The request outlives the attempt once its first chunk is read.
+        const signal = AbortSignal.any([attemptSignal, controller.signal]);
+        const stream = await open(signal);
+        const iterator = stream[Symbol.asyncIterator]();
+        closeOnAbort(iterator, signal);
+        return { iterator, first: await iterator.next() };
+      },
+      { ...options, policy, signal: controller.signal }
+    );
+    let next = first;
+    while (!next.done) {
+      yield next.value;
+      next = await withTimeout(iterator.next(), policy.timeoutMs, stallMessage, controller);
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  }
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolResult } from '../types.js';
+import { globToRegExp, matchesGlob } from '../utils/glob.js';
+import { walk } from '../utils/walk.js';
+
+const DEFAULT_MAX_GREP_RESULTS = 100;
+const DEFAULT_MAX_GLOB_RESULTS = 200;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_LENGTH = 300;
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface SearchOptions {
+  /** Extra ignore patterns in .gitignore syntax. */
+  ignore?: string[];
+  /**
+   * Deny patterns of the `read_file` permission. Files matching one are left
+   * out, so searching a parent directory cannot read or list them.
+   */
+  denied?: string[];
+}
+
+/** Treat a NUL byte near the start as the mark of a binary file. */
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line;
+}
+
+/**
+ * Files under `start` (a directory or single file, relative to the project),
+ * optionally filtered by a glob relative to the project root.
+ */
+function* searchableFiles(
+  projectRoot: string,
+  start: string,
+  include: RegExp | null,
+  options: SearchOptions
+): Generator<{ relPath: string; absPath: string }> {
+  const absStart = path.resolve(projectRoot, start);
+  const relStart = path.relative(projectRoot, absStart).split(path.sep).join('/');
+  const isDenied = (relPath: string) => (options.denied ?? []).some(pattern => matchesGlob(relPath, pattern));
+
+  if (fs.existsSync(absStart) && fs.statSync(absStart).isFile()) {
+    if (!isDenied(relStart)) {
+      yield { relPath: relStart, absPath: absStart };
+    }
+    return;
+  }
+
+  for (const entry of walk(projectRoot, { start: relStart, ignore: options.ignore })) {
+    if (!entry.isDir && (!include || include.test(entry.relPath)) && !isDenied(entry.relPath)) {
+      yield entry;
+    }
+  }
+}
+
+function checkStart(projectRoot: string, start: string): string | null {
+  const resolved = path.resolve(projectRoot, start);
+  const rel = path.relative(projectRoot, resolved);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) {
+    return 'Path traversal not allowed';
+  }
+  if (!fs.existsSync(resolved)) {
+    return `Path not found: ${start}`;
+  }
+  return null;
+}
+
+/**
+ * Search file contents for a regular expression. Results are `path:line: text`,
+ * with context lines as `path-line- text` and groups separated by `--`.
+ */
+export function grepFiles(
+  projectRoot: string,
+  args: Record<string, unknown>,
+  options: SearchOptions = {}
+): ToolResult {
+  const start = String(args.path ?? '.');
+  const startError = checkStart(projectRoot, start);
+  if (startError) {
+    return { error: startError };
+  }
+
+  let regex: RegExp;
+  let include: RegExp | null;
+  try {
+    regex = new RegExp(String(args.pattern), args.case_insensitive ? 'i' : '');
+    include = args.include ? globToRegExp(String(args.include)) : null;
+  } catch (err) {
+    return { error: `Invalid pattern: ${String(err)}` };
+  }
+
+  const context = Math.max(0, Number(args.context) || 0);
+  const maxResults = Number(args.max_results) || DEFAULT_MAX_GREP_RESULTS;
+  const output: string[] = [];
+  let matches = 0;
+  let files = 0;
+  let truncated = false;
+
+  for (const file of searchableFiles(projectRoot, start, include, options)) {
+    let buffer: Buffer;
+    try {
+      if (fs.statSync(file.absPath).size > MAX_SEARCH_FILE_BYTES) {
+        continue;
+      }
+      buffer = fs.readFileSync(file.absPath);
+    } catch (err) {
+      continue;
+    }
+    if (isBinary(buffer)) {
+      continue;
+    }
+
+    const lines = buffer.toString('utf-8').split('\n');
+    // -2 so the first group in each file gets a separator from the previous file.
+    let lastPrinted = -2;
+    let fileMatched = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) {
+        continue;
+      }
+      if (matches >= maxResults) {
+        truncated = true;
+        break;
+      }
+      matches++;
+      fileMatched = true;
+
+      const from = Math.max(0, i - context, lastPrinted + 1);
+      if (context > 0 && output.length > 0 && from > lastPrinted + 1) {
+        output.push('--');
+      }
+      for (let j = from; j < i; j++) {
+        output.push(`${file.relPath}-${j + 1}- ${clipLine(lines[j])}`);
+      }
+      output.push(`${file.relPath}:${i + 1}: ${clipLine(lines[i])}`);
+      lastPrinted = i;
+
+      // Trailing context, unless the next match will print it.
+      const until = Math.min(lines.length - 1, i + context);
+      for (let j = i + 1; j <= until; j++) {
+        if (regex.test(lines[j])) {
+          break;
+        }
+        output.push(`${file.relPath}-${j + 1}- ${clipLine(lines[j])}`);
+        lastPrinted = j;
+      }
+    }
+
+    if (fileMatched) {
+      files++;
+    }
+    if (truncated) {
+      break;
+    }
+  }
+
+  if (matches === 0) {
+    return { output: 'No matches found.' };
+  }
+  const summary = truncated
+    ? `[Stopped after ${maxResults} matches. Narrow the pattern or path, or raise max_results.]`
+    : `[${matches} match${matches === 1 ? '' : 'es'} in ${files} file${files === 1 ? '' : 's'}]`;
+  return { output: `${output.join('\n')}\n${summary}` };
+}
+
+/** Find files whose project-relative path matches a glob. */
+export function globFiles(
+  projectRoot: string,
+  args: Record<string, unknown>,
+  options: SearchOptions = {}
+): ToolResult {
+  const start = String(args.path ?? '.');
+  const startError = checkStart(projectRoot, start);
+  if (startError) {
+    return { error: startError };
+  }
+
+  const relStart = path.relative(projectRoot, path.resolve(projectRoot, start)).split(path.sep).join('/');
+  let regex: RegExp;
+  try {
+    // Patterns are relative to `path`, results relative to the project root.
+    const pattern = String(args.pattern).replace(/^\.\//, '');
+    regex = globToRegExp(relStart ? `${relStart}/${pattern}` : pattern);
+  } catch (err) {
+    return { error: `Invalid pattern: ${String(err)}` };
+  }
+
+  const maxResults = Number(args.max_results) || DEFAULT_MAX_GLOB_RESULTS;
+  const results: string[] = [];
+  let truncated = false;
+
+  for (const file of searchableFiles(projectRoot, start, regex, options)) {
+    if (results.length >= maxResults) {
+      truncated = true;
+      break;
+    }
+    results.push(file.relPath);
+  }
+
+  if (results.length === 0) {
+    return { output: 'No files found.' };
+  }
+  const summary = truncated
+    ? `[Stopped after ${maxResults} files. Narrow the pattern or raise max_results.]`
+    : `[${results.length} file${results.length === 1 ? '' : 's'}]`;
+  return { output: `${results.join('\n')}\n${summary}` };
+}
@@ -1,8 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import { FunctionDeclaration, Type } from '@google/genai';
-import { ToolResult, COMMAND_TIMEOUT_MS } from '../types.js';
+import {
+  ToolResult,
+  FileChangePreview,
+  COMMAND_TIMEOUT_MS,
+  MAX_COMMAND_TIMEOUT_MS,
+  MAX_HOPS,
+  SUBAGENT_MAX_HOPS,
+  INTERRUPTED_MESSAGE,
+} from '../types.js';
+import { CommandOutcome, runCommand as runShellCommand, truncateOutput, backgroundProcesses } from './processes.js';
+import { EditOutcome, EditSpec, applyEdit, applyEdits, toEditSpec } from './edits.js';
+import { ToolContext, ToolDefinition, ToolRegistry } from './registry.js';
+import { grepFiles, globFiles } from './search.js';
+import { listDirectory } from './listing.js';
 
 export const TOOL_NAMES = {
   READ_FILE: 'read_file',
@@ -11,7 +23,13 @@ export const TOOL_NAMES = {
   TAIL_FILE: 'tail_file',
   LIST_DIR: 'list_dir',
   RUN_COMMAND: 'run_command',
+  CHECK_PROCESS: 'check_process',
+  KILL_PROCESS: 'kill_process',
   EDIT_FILE: 'edit_file',
+  MULTI_EDIT: 'multi_edit',
+  GREP_FILES: 'grep_files',
+  GLOB_FILES: 'glob_files',
+  DELEGATE_TASK: 'delegate_task',
 } as const;
 
 export const TOOL_PERMISSIONS: Record<string, string> = {
@@ -21,7 +39,13 @@ export const TOOL_PERMISSIONS: Record<string, string> = {
   [TOOL_NAMES.TAIL_FILE]: 'read_file',
   [TOOL_NAMES.LIST_DIR]: 'list_dir',
   [TOOL_NAMES.RUN_COMMAND]: 'run_command',
+  [TOOL_NAMES.CHECK_PROCESS]: 'run_command',
+  [TOOL_NAMES.KILL_PROCESS]: 'run_command',
   [TOOL_NAMES.EDIT_FILE]: 'write_file',
+  [TOOL_NAMES.MULTI_EDIT]: 'write_file',
+  [TOOL_NAMES.GREP_FILES]: 'read_file',
+  [TOOL_NAMES.GLOB_FILES]: 'read_file',
+  [TOOL_NAMES.DELEGATE_TASK]: 'delegate_task',
 };
 
 export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
@@ -95,7 +119,7 @@ export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
   },
   {
     name: TOOL_NAMES.LIST_DIR,
-    description: 'List the contents of a directory. Shows files and subdirectories.',
+    description: 'List the contents of a directory as a tree. Skips .git and .gitignore-d paths.',
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -107,13 +131,25 @@ export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.BOOLEAN,
           description: 'Whether to list contents recursively. Defaults to false.',
         },
+        max_depth: {
+          type: Type.NUMBER,
+          description: 'How many levels to descend when recursive. Defaults to 3.',
+        },
+        max_entries: {
+          type: Type.NUMBER,
+          description: 'Maximum number of entries to list. Defaults to 500.',
+        },
+        details: {
+          type: Type.BOOLEAN,
+          description: 'Include file sizes and line counts. Defaults to false.',
+        },
       },
       required: ['path'],
     },
   },
   {
     name: TOOL_NAMES.RUN_COMMAND,
-    description: 'Execute a shell command in the project directory. Use with caution. Timeout is 60 seconds.',
+    description: 'Execute a shell command in the project directory and return its exit code and combined stdout/stderr. Use with caution. Long output is truncated to its beginning and end. Set background for servers and watchers that do not exit.',
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -121,13 +157,49 @@ export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
           type: Type.STRING,
           description: 'The shell command to execute. Runs in the project directory.',
         },
+        timeout: {
+          type: Type.NUMBER,
+          description: `Timeout in seconds. Defaults to ${COMMAND_TIMEOUT_MS / 1000}, maximum ${MAX_COMMAND_TIMEOUT_MS / 1000}. Ignored for background commands.`,
+        },
+        background: {
+          type: Type.BOOLEAN,
+          description: 'Start the command in the background and return a process id for check_process and kill_process. Defaults to false.',
+        },
       },
       required: ['command'],
     },
   },
+  {
+    name: TOOL_NAMES.CHECK_PROCESS,
+    description: 'Check a background process started with run_command. Returns whether it is running, its exit code, and output produced since the last check.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: {
+          type: Type.STRING,
+          description: 'The process id returned by run_command.',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: TOOL_NAMES.KILL_PROCESS,
+    description: 'Stop a background process started with run_command.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: {
+          type: Type.STRING,
+          description: 'The process id returned by run_command.',
+        },
+      },
+      required: ['id'],
+    },
+  },
   {
     name: TOOL_NAMES.EDIT_FILE,
-    description: 'Edit a file by replacing a specific string with a new string. Safer than rewriting entire files.',
+    description: 'Edit a file by replacing a specific string with a new string. Safer than rewriting entire files. Fails if old_string matches more than once unless replace_all or expected_occurrences is set.',
     parameters: {
       type: Type.OBJECT,
       properties: {
@@ -137,204 +209,455 @@ export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
         },
         old_string: {
           type: Type.STRING,
-          description: 'The exact string to find and replace. Must match exactly.',
+          description: 'The exact string to find and replace. Must match exactly, including whitespace.',
         },
         new_string: {
           type: Type.STRING,
           description: 'The string to replace the old string with.',
         },
+        replace_all: {
+          type: Type.BOOLEAN,
+          description: 'Replace every occurrence of old_string. Defaults to false.',
+        },
+        expected_occurrences: {
+          type: Type.NUMBER,
+          description: 'Number of occurrences old_string must have. All of them are replaced.',
+        },
       },
       required: ['path', 'old_string', 'new_string'],
     },
   },
+  {
+    name: TOOL_NAMES.MULTI_EDIT,
+    description: 'Apply several string replacements to one file in order. Either all edits succeed or the file is left unchanged.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        path: {
+          type: Type.STRING,
+          description: 'The path to the file to edit, relative to the project directory.',
+        },
+        edits: {
+          type: Type.ARRAY,
+          description: 'Edits to apply in order. Each edit sees the result of the previous ones.',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              old_string: {
+                type: Type.STRING,
+                description: 'The exact string to find and replace.',
+              },
+              new_string: {
+                type: Type.STRING,
+                description: 'The string to replace the old string with.',
+              },
+              replace_all: {
+                type: Type.BOOLEAN,
+                description: 'Replace every occurrence of old_string. Defaults to false.',
+              },
+            },
+            required: ['old_string', 'new_string'],
+          },
+        },
+      },
+      required: ['path', 'edits'],
+    },
+  },
+  {
+    name: TOOL_NAMES.GREP_FILES,
+    description: 'Search file contents with a regular expression. Skips .gitignore-d files, .git and binary files. Returns matches as path:line: text.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        pattern: {
+          type: Type.STRING,
+          description: 'JavaScript regular expression to search for, matched against each line.',
+        },
+        path: {
+          type: Type.STRING,
+          description: 'Directory or file to search, relative to the project directory. Defaults to ".".',
+        },
+        include: {
+          type: Type.STRING,
+          description: 'Only search files whose project-relative path matches this glob, e.g. "**/*.java".',
+        },
+        context: {
+          type: Type.NUMBER,
+          description: 'Lines of context to show before and after each match. Defaults to 0.',
+        },
+        max_results: {
+          type: Type.NUMBER,
+          description: 'Maximum number of matching lines to return. Defaults to 100.',
+        },
+        case_insensitive: {
+          type: Type.BOOLEAN,
+          description: 'Match case-insensitively. Defaults to false.',
+        },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: TOOL_NAMES.GLOB_FILES,
+    description: 'Find files by glob pattern, e.g. "src/**/*.java". Skips .gitignore-d files and .git. Returns project-relative paths.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        pattern: {
+          type: Type.STRING,
+          description: 'Glob relative to path. "*" matches within a directory, "**" across directories, "{a,b}" alternatives.',
+        },
+        path: {
+          type: Type.STRING,
+          description: 'Directory to search from, relative to the project directory. Defaults to ".".',
+        },
+        max_results: {
+          type: Type.NUMBER,
+          description: 'Maximum number of files to return. Defaults to 200.',
+        },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: TOOL_NAMES.DELEGATE_TASK,
+    description: 'Hand a self-contained task to a sub-agent with a fresh context, e.g. investigating how a feature works across many files. The sub-agent can only read by default and returns a concise report; its steps do not fill your context. Describe the task completely, since the sub-agent does not see this conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        task: {
+          type: Type.STRING,
+          description: 'The task, with all context the sub-agent needs and what the report should contain.',
+        },
+        max_hops: {
+          type: Type.NUMBER,
+          description: `Maximum number of model requests the sub-agent may make. Defaults to ${SUBAGENT_MAX_HOPS}, maximum ${MAX_HOPS}.`,
+        },
+      },
+      required: ['task'],
+    },
+  },
 ];
 
-export function createToolExecutor(projectDir: string) {
+function toEditSpecs(args: Record<string, unknown>): EditSpec[] {
+  const edits = Array.isArray(args.edits) ? args.edits : [];
+  return edits.map(edit => toEditSpec((edit ?? {}) as Record<string, unknown>));
+}
+
+export interface BuiltinToolOptions {
+  /** Extra ignore patterns (.gitignore syntax) for listing and search tools. */
+  ignore?: string[];
+  /** Deny patterns of the `read_file` permission, which search tools apply to every file they visit. */
+  denied?: string[];
+}
+
+function resolveProjectPath(projectDir: string, relativePath: string): string {
   const projectRoot = path.resolve(projectDir);
-  function resolvePath(relativePath: string): string {
-    const resolved = path.resolve(projectRoot, relativePath);
-    const rel = path.relative(projectRoot, resolved);
-    if (rel.startsWith('..') || path.isAbsolute(rel)) {
-      throw new Error('Path traversal not allowed');
-    }
-    return resolved;
+  const resolved = path.resolve(projectRoot, relativePath);
+  const rel = path.relative(projectRoot, resolved);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) {
+    throw new Error('Path traversal not allowed');
   }
+  return resolved;
+}
 
-  function readFile(args: Record<string, unknown>): ToolResult {
-    try {
-      const filePath = resolvePath(String(args.path));
-      if (!fs.existsSync(filePath)) {
-        return { error: `File not found: ${args.path}` };
-      }
-      const content = fs.readFileSync(filePath, 'utf-8');
-      return { output: content };
-    } catch (err) {
-      return { error: String(err) };
-    }
+function readExisting(projectDir: string, args: Record<string, unknown>): string | null {
+  const filePath = resolveProjectPath(projectDir, String(args.path));
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+/**
+ * Compute the file content an edit_file or multi_edit call would produce,
+ * without touching the file. Returns undefined when the call would fail.
+ */
+function previewEdit(
+  projectDir: string,
+  args: Record<string, unknown>,
+  edit: (content: string) => EditOutcome
+): FileChangePreview | undefined {
+  const before = readExisting(projectDir, args);
+  if (before === null) {
+    return undefined;
   }
+  const outcome = edit(before);
+  return outcome.error === undefined ? { path: String(args.path), before, after: outcome.content } : undefined;
+}
 
-  function writeFile(args: Record<string, unknown>): ToolResult {
-    try {
-      const filePath = resolvePath(String(args.path));
-      const content = String(args.content);
-      const dir = path.dirname(filePath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      fs.writeFileSync(filePath, content);
-      return { output: `File written: ${args.path}` };
-    } catch (err) {
-      return { error: String(err) };
-    }
+function declaration(name: string): FunctionDeclaration {
+  const found = TOOL_DECLARATIONS.find(decl => decl.name === name);
+  if (!found) {
+    throw new Error(`No declaration for built-in tool ${name}`);
   }
+  return found;
+}
 
-  function headFile(args: Record<string, unknown>): ToolResult {
-    try {
-      const filePath = resolvePath(String(args.path));
-      const lines = Number(args.lines) || 100;
-      if (!fs.existsSync(filePath)) {
-        return { error: `File not found: ${args.path}` };
-      }
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const fileLines = content.split('\n').slice(0, lines);
-      return { output: fileLines.join('\n') };
-    } catch (err) {
-      return { error: String(err) };
+function readFile(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
+    if (!fs.existsSync(filePath)) {
+      return { error: `File not found: ${args.path}` };
     }
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return { output: content };
+  } catch (err) {
+    return { error: String(err) };
   }
+}
 
-  function tailFile(args: Record<string, unknown>): ToolResult {
-    try {
-      const filePath = resolvePath(String(args.path));
-      const lines = Number(args.lines) || 100;
-      if (!fs.existsSync(filePath)) {
-        return { error: `File not found: ${args.path}` };
-      }
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const fileLines = content.split('\n').slice(-lines);
-      return { output: fileLines.join('\n') };
-    } catch (err) {
-      return { error: String(err) };
+function writeFile(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
+    const content = String(args.content);
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
     }
+    context.beforeWrite?.(filePath);
+    fs.writeFileSync(filePath, content);
+    return { output: `File written: ${args.path}` };
+  } catch (err) {
+    return { error: String(err) };
   }
+}
 
-  function listDir(args: Record<string, unknown>): ToolResult {
-    try {
-      const dirPath = resolvePath(String(args.path));
-      const recursive = Boolean(args.recursive);
-      if (!fs.existsSync(dirPath)) {
-        return { error: `Directory not found: ${args.path}` };
-      }
-
-      function listRecursive(p: string, prefix: string = ''): string[] {
-        const items: string[] = [];
-        const entries = fs.readdirSync(p, { withFileTypes: true });
-        for (const entry of entries) {
-          const itemPath = path.join(p, entry.name);
-          const displayPath = prefix + entry.name;
-          if (entry.isDirectory()) {
-            items.push(displayPath + '/');
-            if (recursive) {
-              items.push(...listRecursive(itemPath, displayPath + '/'));
-            }
-          } else {
-            items.push(displayPath);
-          }
-        }
-        return items;
-      }
-
-      const items = listRecursive(dirPath);
-      return { output: items.join('\n') || '(empty directory)' };
-    } catch (err) {
-      return { error: String(err) };
+function headFile(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
+    const lines = Number(args.lines) || 100;
+    if (!fs.existsSync(filePath)) {
+      return { error: `File not found: ${args.path}` };
     }
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const fileLines = content.split('\n').slice(0, lines);
+    return { output: fileLines.join('\n') };
+  } catch (err) {
+    return { error: String(err) };
   }
+}
 
-  function runCommand(args: Record<string, unknown>): ToolResult {
-    try {
-      const command = String(args.command);
-      const output = execSync(command, {
-        cwd: projectRoot,
-        timeout: COMMAND_TIMEOUT_MS,
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
-      return { output: output || '(no output)' };
-    } catch (err: unknown) {
-      const execErr = err as { stdout?: string; stderr?: string; message?: string };
-      const output = execErr.stdout || '';
-      const stderr = execErr.stderr || '';
-      const message = execErr.message || '';
-      if (output || stderr) {
-        return { error: `Command failed\nstdout:\n${output}\nstderr:\n${stderr}` };
-      }
-      return { error: `Command failed: ${message}` };
+function tailFile(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
+    const lines = Number(args.lines) || 100;
+    if (!fs.existsSync(filePath)) {
+      return { error: `File not found: ${args.path}` };
     }
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const fileLines = content.split('\n').slice(-lines);
+    return { output: fileLines.join('\n') };
+  } catch (err) {
+    return { error: String(err) };
   }
+}
 
-  function editFile(args: Record<string, unknown>): ToolResult {
-    try {
-      const filePath = resolvePath(String(args.path));
-      const oldString = String(args.old_string);
-      const newString = String(args.new_string);
-
-      if (!fs.existsSync(filePath)) {
-        return { error: `File not found: ${args.path}` };
-      }
-
-      const content = fs.readFileSync(filePath, 'utf-8');
-      if (!content.includes(oldString)) {
-        return { error: `String not found in file: "${oldString.slice(0, 50)}..."` };
-      }
-
-      const newContent = content.replace(oldString, newString);
-      fs.writeFileSync(filePath, newContent);
-      return { output: `File edited: ${args.path}` };
-    } catch (err) {
-      return { error: String(err) };
+/** Format the outcome of a finished shell command as a tool result. */
+export function commandResult(outcome: CommandOutcome, timeoutMs: number): ToolResult {
+  const output = outcome.output || '(no output)';
+  if (outcome.aborted) {
+    return { error: `${INTERRUPTED_MESSAGE}\n${output}` };
+  }
+  if (outcome.timedOut) {
+    return { error: `Command timed out after ${timeoutMs / 1000} seconds\n${output}` };
+  }
+  if (outcome.exitCode !== 0) {
+    const status = outcome.exitCode === null ? `signal ${outcome.signal}` : `exit code ${outcome.exitCode}`;
+    return { error: `Command failed with ${status}\n${output}` };
+  }
+  return { output: `Exit code: 0\n${output}` };
+}
+
+async function runCommand(args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+  const command = String(args.command);
+  const cwd = path.resolve(context.projectDir);
+
+  if (args.background === true) {
+    const started = backgroundProcesses.start(command, cwd);
+    return { output: `Started background process ${started.id}: ${command}` };
+  }
+
+  const requested = Number(args.timeout) * 1000;
+  const timeoutMs = requested > 0 ? Math.min(requested, MAX_COMMAND_TIMEOUT_MS) : COMMAND_TIMEOUT_MS;
+
+  try {
+    const outcome = await runShellCommand(command, {
+      cwd,
+      timeoutMs,
+      onOutput: context.onOutput,
+      signal: context.signal,
+    });
+    return commandResult(outcome, timeoutMs);
+  } catch (err) {
+    return { error: `Command failed: ${String(err)}` };
+  }
+}
+
+function checkProcess(args: Record<string, unknown>): ToolResult {
+  const read = backgroundProcesses.read(String(args.id));
+  if (!read) {
+    return { error: `No background process with id ${args.id}` };
+  }
+  const { process: proc, output } = read;
+  const status = proc.running
+    ? 'running'
+    : `exited with ${proc.exitCode === null ? `signal ${proc.signal}` : `exit code ${proc.exitCode}`}`;
+  const newOutput = output ? truncateOutput(output) : '(no new output)';
+  return { output: `Process ${proc.id} (${proc.command}): ${status}\n${newOutput}` };
+}
+
+function killProcess(args: Record<string, unknown>): ToolResult {
+  const killed = backgroundProcesses.kill(String(args.id));
+  if (!killed) {
+    return { error: `No background process with id ${args.id}` };
+  }
+  return {
+    output: killed.running
+      ? `Stopping background process ${killed.id}: ${killed.command}`
+      : `Background process ${killed.id} had already exited`,
+  };
+}
+
+function editFile(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
+
+    if (!fs.existsSync(filePath)) {
+      return { error: `File not found: ${args.path}` };
     }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const outcome = applyEdit(content, toEditSpec(args));
+    if (outcome.error !== undefined) {
+      return { error: outcome.error };
+    }
+
+    context.beforeWrite?.(filePath);
+    fs.writeFileSync(filePath, outcome.content);
+    return { output: `File edited: ${args.path}` };
+  } catch (err) {
+    return { error: String(err) };
   }
+}
+
+function multiEdit(args: Record<string, unknown>, context: ToolContext): ToolResult {
+  try {
+    const filePath = resolveProjectPath(context.projectDir, String(args.path));
 
-  return function executeTool(name: string, args: Record<string, unknown>): ToolResult {
-    switch (name) {
-      case TOOL_NAMES.READ_FILE:
-        return readFile(args);
-      case TOOL_NAMES.WRITE_FILE:
-        return writeFile(args);
-      case TOOL_NAMES.HEAD_FILE:
-        return headFile(args);
-      case TOOL_NAMES.TAIL_FILE:
-        return tailFile(args);
-      case TOOL_NAMES.LIST_DIR:
-        return listDir(args);
-      case TOOL_NAMES.RUN_COMMAND:
-        return runCommand(args);
-      case TOOL_NAMES.EDIT_FILE:
-        return editFile(args);
-      default:
-        return { error: `Unknown tool: ${name}` };
+    if (!fs.existsSync(filePath)) {
+      return { error: `File not found: ${args.path}` };
     }
-  };
+
+    const edits = toEditSpecs(args);
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const outcome = applyEdits(content, edits);
+    if (outcome.error !== undefined) {
+      return { error: outcome.error };
+    }
+
+    context.beforeWrite?.(filePath);
+    fs.writeFileSync(filePath, outcome.content);
+    return { output: `File edited: ${args.path} (${edits.length} edits)` };
+  } catch (err) {
+    return { error: String(err) };
+  }
+}
+
+async function delegateTask(args: Record<string, unknown>, context: ToolContext): Promise<ToolResult> {
+  const task = typeof args.task === 'string' ? args.task.trim() : '';
+  if (!task) {
+    return { error: 'task must be a non-empty string' };
+  }
+  if (!context.runSubAgent) {
+    return { error: 'Sub-agents are not available here' };
+  }
+  const maxHops = typeof args.max_hops === 'number' ? Math.max(1, Math.min(Math.floor(args.max_hops), MAX_HOPS)) : undefined;
+  return context.runSubAgent({ task, maxHops });
+}
+
+/** The tools that ship with the agent. */
+export function createBuiltinTools(options: BuiltinToolOptions = {}): ToolDefinition[] {
+  const tool = (name: string, definition: Omit<ToolDefinition, 'declaration' | 'permission'>): ToolDefinition => ({
+    declaration: declaration(name),
+    permission: TOOL_PERMISSIONS[name],
+    ...definition,
+  });
+
+  return [
+    tool(TOOL_NAMES.READ_FILE, {
+      readOnly: true,
+      describe: args => `Read file: ${args.path}`,
+      execute: readFile,
+    }),
+    tool(TOOL_NAMES.WRITE_FILE, {
+      describe: args => `Write file: ${args.path}`,
+      preview: (args, projectDir) => ({
+        path: String(args.path),
+        before: readExisting(projectDir, args),
+        after: String(args.content),
+      }),
+      execute: writeFile,
+    }),
+    tool(TOOL_NAMES.HEAD_FILE, {
+      readOnly: true,
+      describe: args => `Read first ${args.lines || 100} lines of: ${args.path}`,
+      execute: headFile,
+    }),
+    tool(TOOL_NAMES.TAIL_FILE, {
+      readOnly: true,
+      describe: args => `Read last ${args.lines || 100} lines of: ${args.path}`,
+      execute: tailFile,
+    }),
+    tool(TOOL_NAMES.LIST_DIR, {
+      readOnly: true,
+      describe: args => `List directory: ${args.path}${args.recursive ? ` (recursive, depth ${args.max_depth ?? 3})` : ''}`,
+      execute: (args, context) => listDirectory(path.resolve(context.projectDir), args, { ignore: options.ignore }),
+    }),
+    tool(TOOL_NAMES.RUN_COMMAND, {
+      describe: args => `Run command${args.background ? ' in background' : ''}: ${args.command}`,
+      subject: args => ({ kind: 'command', value: String(args.command ?? '').trim() }),
+      execute: runCommand,
+    }),
+    tool(TOOL_NAMES.CHECK_PROCESS, {
+      readOnly: true,
+      describe: args => `Check background process: ${args.id}`,
+      execute: checkProcess,
+    }),
+    tool(TOOL_NAMES.KILL_PROCESS, {
+      describe: args => `Stop background process: ${args.id}`,
+      execute: killProcess,
+    }),
+    tool(TOOL_NAMES.EDIT_FILE, {
+      describe: args => `Edit file: ${args.path}${args.replace_all ? ' (all occurrences)' : ''}`,
+      preview: (args, projectDir) => previewEdit(projectDir, args, content => applyEdit(content, toEditSpec(args))),
+      execute: editFile,
+    }),
+    tool(TOOL_NAMES.MULTI_EDIT, {
+      describe: args => `Edit file: ${args.path} (${Array.isArray(args.edits) ? args.edits.length : 0} edits)`,
+      preview: (args, projectDir) => previewEdit(projectDir, args, content => applyEdits(content, toEditSpecs(args))),
+      execute: multiEdit,
+    }),
+    tool(TOOL_NAMES.GREP_FILES, {
+      readOnly: true,
+      describe: args => `Search for /${args.pattern}/ in: ${args.path ?? '.'}${args.include ? ` (${args.include})` : ''}`,
+      execute: (args, context) => grepFiles(path.resolve(context.projectDir), args, { ignore: options.ignore, denied: options.denied }),
+    }),
+    tool(TOOL_NAMES.GLOB_FILES, {
+      readOnly: true,
+      describe: args => `Find files matching: ${args.pattern}${args.path ? ` in ${args.path}` : ''}`,
+      execute: (args, context) => globFiles(path.resolve(context.projectDir), args, { ignore: options.ignore, denied: options.denied }),
+    }),
+    tool(TOOL_NAMES.DELEGATE_TASK, {
+      describe: args => `Delegate to a sub-agent: ${String(args.task ?? '').split('\n')[0]}`,
+      subject: () => undefined,
+      execute: delegateTask,
+    }),
+  ];
 }
 
-export function getToolDescription(name: string, args: Record<string, unknown>): string {
-  switch (name) {
-    case TOOL_NAMES.READ_FILE:
-      return `Read file: ${args.path}`;
-    case TOOL_NAMES.WRITE_FILE:
-      return `Write file: ${args.path}`;
-    case TOOL_NAMES.HEAD_FILE:
-      return `Read first ${args.lines || 100} lines of: ${args.path}`;
-    case TOOL_NAMES.TAIL_FILE:
-      return `Read last ${args.lines || 100} lines of: ${args.path}`;
-    case TOOL_NAMES.LIST_DIR:
-      return `List directory: ${args.path}${args.recursive ? ' (recursive)' : ''}`;
-    case TOOL_NAMES.RUN_COMMAND:
-      return `Run command: ${args.command}`;
-    case TOOL_NAMES.EDIT_FILE:
-      return `Edit file: ${args.path}`;
-    default:
-      return `Unknown tool: ${name}`;
+/** A registry with the built-in tools followed by any extra tools. */
+export function createToolRegistry(options: BuiltinToolOptions = {}): ToolRegistry {
+  const registry = new ToolRegistry();
+  for (const tool of createBuiltinTools(options)) {
+    registry.register(tool);
   }
+  return registry;
 }
@@ -0,0 +1,142 @@
+import { BudgetSettings, ModelPrice, UsagePurpose, UsageRecord } from '../types.js';
+import { UsageMetadata } from './provider.js';
+
+/**
+ * Paid-tier list prices in US dollars per million tokens, for prompts up to
+ * 200k tokens. Versioned names match by their longest listed prefix. Override
+ * or extend them with `pricing` in settings.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2.0, output: 12.0, cachedInput: 0.2 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0, cachedInput: 0.05 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.0, cachedInput: 0.125 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.01 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+export interface UsageTotals {
+  /** Model requests. */
+  calls: number;
+  promptTokens: number;
+  cachedTokens: number;
+  /** Response tokens, including thinking. */
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated US dollars for the requests with a known price. */
+  cost: number;
+  /** Requests whose model has no price, so they are missing from `cost`. */
+  unpricedCalls: number;
+}
+
+export function toUsageRecord(
+  usage: UsageMetadata,
+  model: string,
+  purpose: UsagePurpose,
+  hop?: number
+): UsageRecord {
+  const promptTokens = usage.promptTokenCount ?? 0;
+  const outputTokens = usage.candidatesTokenCount ?? 0;
+  const thoughtsTokens = usage.thoughtsTokenCount ?? 0;
+  return {
+    timestamp: new Date().toISOString(),
+    model: model.replace(/^models\//, ''),
+    purpose,
+    hop,
+    promptTokens,
+    cachedTokens: usage.cachedContentTokenCount ?? 0,
+    outputTokens,
+    thoughtsTokens,
+    totalTokens: usage.totalTokenCount ?? promptTokens + outputTokens + thoughtsTokens,
+  };
+}
+
+/** The price of a model, preferring `overrides`. Undefined for unknown models. */
+export function getModelPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  const name = model.replace(/^models\//, '');
+  for (const table of [overrides, MODEL_PRICES]) {
+    if (table[name]) {
+      return table[name];
+    }
+    const prefix = Object.keys(table)
+      .filter(key => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) {
+      return table[prefix];
+    }
+  }
+  return undefined;
+}
+
+/** Estimated US dollars for one request. Cached input tokens are billed at the cached rate. */
+export function estimateCost(record: UsageRecord, price: ModelPrice): number {
+  const cached = Math.min(record.cachedTokens, record.promptTokens);
+  const input = (record.promptTokens - cached) * price.input + cached * (price.cachedInput ?? price.input);
+  const output = (record.outputTokens + record.thoughtsTokens) * price.output;
+  return (input + output) / 1_000_000;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, cachedTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+export function sumUsage(records: UsageRecord[], overrides: Record<string, ModelPrice> = {}): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    totals.calls++;
+    totals.promptTokens += record.promptTokens;
+    totals.cachedTokens += record.cachedTokens;
+    totals.outputTokens += record.outputTokens + record.thoughtsTokens;
+    totals.totalTokens += record.totalTokens;
+    const price = getModelPrice(record.model, overrides);
+    if (price) {
+      totals.cost += estimateCost(record, price);
+    } else {
+      totals.unpricedCalls++;
+    }
+  }
+  return totals;
+}
+
+/** Totals per key, in order of first appearance. */
+export function groupUsage(
+  records: UsageRecord[],
+  key: (record: UsageRecord) => string,
+  overrides: Record<string, ModelPrice> = {}
+): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const name = key(record);
+    groups.set(name, [...(groups.get(name) ?? []), record]);
+  }
+  return new Map([...groups].map(([name, group]) => [name, sumUsage(group, overrides)]));
+}
+
+/** The local calendar day of a timestamp, as YYYY-MM-DD. */
+export function usageDay(timestamp: string | Date): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * The first budget limit that is reached, as a message for the user, or null
+ * while all limits have room left.
+ */
+export function checkBudget(budget: BudgetSettings, session: UsageTotals, today: UsageTotals): string | null {
+  if (budget.sessionTokens !== undefined && session.totalTokens >= budget.sessionTokens) {
+    return `Stopped: this session used ${session.totalTokens} tokens, reaching its budget of ${budget.sessionTokens} (budget.sessionTokens).`;
+  }
+  if (budget.sessionCost !== undefined && session.cost >= budget.sessionCost) {
+    return `Stopped: this session cost an estimated ${formatCost(session.cost)}, reaching its budget of ${formatCost(budget.sessionCost)} (budget.sessionCost).`;
+  }
+  if (budget.dailyCost !== undefined && today.cost >= budget.dailyCost) {
+    return `Stopped: this project cost an estimated ${formatCost(today.cost)} today, reaching the daily budget of ${formatCost(budget.dailyCost)} (budget.dailyCost).`;
+  }
+  return null;
+}
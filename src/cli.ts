@@ -1,16 +1,45 @@
 #!/usr/bin/env node
 import 'dotenv/config';
+import * as fs from 'fs';
 import * as path from 'path';
 import { Command } from 'commander';
 import { GoogleGenAI } from '@google/genai';
 import chalk from 'chalk';
-import ora from 'ora';
-import { input, select } from '@inquirer/prompts';
+import ora, { Ora } from 'ora';
+import { editor, input, select } from '@inquirer/prompts';
 import { SettingsManager } from './storage/settings.js';
 import { HistoryManager } from './storage/history.js';
-import { Agent, PermissionPromptFn } from './agent/index.js';
-import { PermissionResponse, ToolResult } from './types.js';
-import { runDemos } from './demos.js';
+import { CheckpointManager } from './storage/checkpoints.js';
+import { MemoryManager, MemoryScope } from './storage/memory.js';
+import { Agent, AgentEvent, EXECUTE_PLAN_PROMPT, INIT_PROMPT, PermissionPromptFn } from './agent/index.js';
+import { formatPlan, parsePlan } from './agent/planning.js';
+import { ModelProvider, ScriptedProvider } from './agent/provider.js';
+import { ContextBreakdown, TokenUsage } from './agent/context.js';
+import { TOOL_NAMES, TOOL_PERMISSIONS, createToolRegistry } from './agent/tools.js';
+import { ToolRegistry } from './agent/registry.js';
+import { loadCustomTools } from './agent/plugins.js';
+import { McpManager } from './agent/mcp.js';
+import { RetryEvent } from './agent/retry.js';
+import { UsageTotals, formatCost, groupUsage, sumUsage, usageDay } from './agent/usage.js';
+import { EXPORT_EXTENSIONS, EXPORT_FORMATS, ExportFormat, exportSession, formatFromPath } from './agent/export.js';
+import { escapeGlob } from './utils/glob.js';
+import { isSimpleCommand } from './utils/shell.js';
+import { createUnifiedDiff } from './utils/diff.js';
+import {
+  PermissionResponse,
+  ToolResult,
+  Session,
+  SessionSummary,
+  Checkpoint,
+  FileChangePreview,
+  Plan,
+  PlanStepStatus,
+  BudgetSettings,
+  UsageRecord,
+  GEMINI_DIR,
+  EXPORTS_DIR,
+  INTERRUPTED_MESSAGE,
+} from './types.js';
 
 const program = new Command();
 
@@ -49,6 +78,93 @@ function isTextAndToolFriendlyModel(model: ListableModel): boolean {
   return supportedActions.some(action => action.includes('generatecontent'));
 }
 
+const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,
+  USAGE: 2,
+  MAX_HOPS: 3,
+  BUDGET: 4,
+} as const;
+
+type PermissionPolicy = 'settings' | 'deny';
+
+interface RunToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  granted: boolean;
+  error?: string;
+}
+
+interface RunOutput {
+  text: string;
+  reason: 'complete' | 'max_hops' | 'plan' | 'budget' | 'interrupted';
+  toolCalls: RunToolCall[];
+  tokens: {
+    context: number;
+    response: number;
+  };
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Built-in tools plus the project's tools from `.gemini/tools/` and the tools
+ * of configured MCP servers. Tools that fail to load or clash with an
+ * existing name are skipped with a warning.
+ */
+async function loadTools(projectDir: string, settings: SettingsManager): Promise<{ tools: ToolRegistry; mcp: McpManager }> {
+  const registry = createToolRegistry({
+    ignore: settings.getIgnorePatterns(),
+    denied: settings.getDenyPatterns(TOOL_PERMISSIONS[TOOL_NAMES.GREP_FILES]),
+  });
+  const loaded = await loadCustomTools(projectDir);
+  const mcp = new McpManager(projectDir, settings.getMcpServers());
+  const mcpTools = await mcp.start();
+  const warnings = [...loaded.errors];
+  for (const server of mcp.getStatus()) {
+    if (server.error) {
+      warnings.push(server.error);
+    }
+  }
+  for (const tool of [...loaded.tools, ...mcpTools]) {
+    try {
+      registry.register(tool);
+    } catch (err) {
+      warnings.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  for (const warning of warnings) {
+    console.error(chalk.yellow(`Skipped: ${warning}`));
+  }
+  return { tools: registry, mcp };
+}
+
+function printMcpServers(mcp: McpManager): void {
+  const servers = mcp.getStatus();
+  if (servers.length === 0) {
+    console.log(chalk.dim('No MCP servers configured. Add them under "mcpServers" in .gemini/settings.json.'));
+    return;
+  }
+  console.log();
+  for (const server of servers) {
+    if (server.connected) {
+      console.log(`${chalk.green('●')} ${chalk.bold(server.name)} ${chalk.dim(`(${server.tools.length} tools)`)}`);
+      for (const tool of server.tools) {
+        console.log(chalk.dim(`    ${tool}`));
+      }
+    } else {
+      console.log(`${chalk.red('●')} ${chalk.bold(server.name)} ${chalk.red(server.error ?? 'not connected')}`);
+    }
+  }
+  console.log();
+}
+
 function isPromptExitError(err: unknown): boolean {
   const message = String(err ?? '');
   return (
@@ -58,15 +174,532 @@ function isPromptExitError(err: unknown): boolean {
   );
 }
 
+/** `name` labels the result when several calls were made at once. */
+function printToolResult(result: ToolResult, name?: string): void {
+  const label = name ? `${name} ` : '';
+  if (result.error) {
+    console.log(chalk.red(`  ${label}Error: ${result.error}`));
+  } else if (result.output) {
+    const preview = result.output.slice(0, 200);
+    const truncated = result.output.length > 200 ? '...' : '';
+    console.log(chalk.dim(`  ${label}Result: ${preview}${truncated}`));
+  }
+}
+
+const PLAN_STEP_MARKERS: Record<PlanStepStatus, string> = {
+  pending: chalk.dim('○'),
+  in_progress: chalk.yellow('◐'),
+  done: chalk.green('●'),
+  skipped: chalk.dim('⊘'),
+};
+
+/** A proposed plan is shown with step details; plans being executed only as progress. */
+function printPlan(plan: Plan): void {
+  const finished = plan.steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+  console.log();
+  console.log(chalk.bold(`Plan (${plan.status}, ${finished}/${plan.steps.length} steps finished): `) + plan.summary);
+  plan.steps.forEach((step, i) => {
+    const title = step.status === 'skipped' ? chalk.dim(step.title) : step.title;
+    console.log(`  ${PLAN_STEP_MARKERS[step.status]} ${i + 1}. ${title}`);
+    if (plan.status === 'proposed' && step.details) {
+      for (const line of step.details.split('\n')) {
+        console.log(chalk.dim(`       ${line}`));
+      }
+    }
+    if (step.note && plan.status !== 'proposed') {
+      console.log(chalk.dim(`       ${step.note}`));
+    }
+  });
+  console.log();
+}
+
+/**
+ * Let the user approve, edit or reject a plan the agent submitted. Approved
+ * plans are executed right away; rejecting with feedback asks for a new plan,
+ * which is reviewed in turn.
+ */
+async function reviewPlan(agent: Agent): Promise<void> {
+  let plan = agent.getPlan();
+  while (plan?.status === 'proposed') {
+    const action = await select({
+      message: 'What do you want to do with this plan?',
+      choices: [
+        { name: 'Approve and execute', value: 'approve' },
+        { name: 'Edit the plan', value: 'edit' },
+        { name: 'Reject and tell the agent what to change', value: 'revise' },
+        { name: 'Reject', value: 'reject' },
+      ],
+    });
+
+    if (action === 'approve') {
+      agent.approvePlan(plan);
+      console.log(chalk.green('Plan approved. Plan mode disabled.'));
+      await renderAgentTurn(agent, EXECUTE_PLAN_PROMPT);
+      return;
+    }
+
+    if (action === 'edit') {
+      const text = await editor({
+        message: 'Edit the plan (one "- [ ]" line per step, indented lines are details)',
+        default: formatPlan(plan),
+        postfix: '.md',
+      });
+      const edited = parsePlan(text, plan);
+      if (typeof edited === 'string') {
+        console.log(chalk.red(edited));
+      } else {
+        plan = edited;
+        printPlan(plan);
+      }
+      continue;
+    }
+
+    agent.rejectPlan();
+    if (action === 'reject') {
+      console.log(chalk.dim('Plan rejected. Plan mode is still on.'));
+      return;
+    }
+    const feedback = await input({ message: 'What should change?' });
+    await renderAgentTurn(agent, `The plan was rejected. ${feedback}\nRevise the plan and submit it again.`);
+    plan = agent.getPlan();
+  }
+}
+
+/** Aborts the turn being rendered, e.g. when Ctrl-C is pressed in a permission prompt. */
+let activeTurn: AbortController | null = null;
+
+/**
+ * Renders one agent turn as it streams: text is written token by token and
+ * the spinner is shown only while waiting on the model. The first Ctrl-C
+ * aborts the model request and any running command and returns to the
+ * prompt; a second one exits.
+ */
+async function renderAgentTurn(agent: Agent, userInput: string): Promise<void> {
+  let spinner: Ora | null = ora('Agent thinking...').start();
+  let textOpen = false;
+  let textSinceLastTool = false;
+  // Calls of one model response are all announced before their results arrive.
+  let pendingCalls = 0;
+  let batchSize = 0;
+
+  const stopSpinner = () => {
+    spinner?.stop();
+    spinner = null;
+  };
+  const closeText = () => {
+    if (textOpen) {
+      process.stdout.write('\n');
+      textOpen = false;
+    }
+  };
+
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    stopSpinner();
+    closeText();
+    if (controller.signal.aborted) {
+      console.log(chalk.dim('\nGoodbye!'));
+      process.exit(130);
+    }
+    console.log(chalk.yellow('\nInterrupting... (press Ctrl-C again to exit)'));
+    controller.abort(new Error(INTERRUPTED_MESSAGE));
+  };
+  // ora turns Ctrl-C into a SIGINT on the process while its spinner runs.
+  process.on('SIGINT', onInterrupt);
+  activeTurn = controller;
+
+  try {
+    for await (const event of agent.streamMessage(userInput, controller.signal)) {
+      switch (event.type) {
+        case 'text': {
+          stopSpinner();
+          if (!textOpen) {
+            console.log();
+            process.stdout.write(chalk.green('Agent: '));
+            textOpen = true;
+          }
+          process.stdout.write(event.text);
+          textSinceLastTool = true;
+          break;
+        }
+
+        case 'tool_call': {
+          stopSpinner();
+          closeText();
+          textSinceLastTool = false;
+          pendingCalls++;
+          batchSize = Math.max(batchSize, pendingCalls);
+          console.log(chalk.cyan('Tool:'), event.description);
+          break;
+        }
+
+        case 'tool_output': {
+          stopSpinner();
+          process.stdout.write(chalk.dim(event.text));
+          break;
+        }
+
+        case 'plan': {
+          stopSpinner();
+          printPlan(event.plan);
+          spinner = ora('Agent thinking...').start();
+          break;
+        }
+
+        case 'tool_result': {
+          stopSpinner();
+          printToolResult(event.result, batchSize > 1 ? event.name : undefined);
+          pendingCalls = Math.max(0, pendingCalls - 1);
+          if (pendingCalls === 0) {
+            batchSize = 0;
+          }
+          spinner = ora('Agent thinking...').start();
+          break;
+        }
+
+        case 'done': {
+          stopSpinner();
+          closeText();
+          if (event.reason === 'interrupted') {
+            console.log(chalk.yellow('Interrupted.'));
+          } else if (event.reason === 'budget') {
+            console.log();
+            console.log(chalk.yellow(event.text));
+          } else if (!textSinceLastTool || event.reason === 'max_hops') {
+            console.log();
+            console.log(chalk.green('Agent:'), event.text);
+          }
+          console.log();
+          break;
+        }
+      }
+    }
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    activeTurn = null;
+    stopSpinner();
+    closeText();
+  }
+}
+
+const MAX_DIFF_LINES = 200;
+
+function printDiff(preview: FileChangePreview): void {
+  const diff = createUnifiedDiff(preview.path, preview.before, preview.after);
+  if (!diff) {
+    console.log(chalk.dim('  (no changes)'));
+    return;
+  }
+  const lines = diff.split('\n');
+  for (const line of lines.slice(0, MAX_DIFF_LINES)) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(chalk.dim(line));
+    }
+  }
+  if (lines.length > MAX_DIFF_LINES) {
+    console.log(chalk.dim(`... ${lines.length - MAX_DIFF_LINES} more diff lines`));
+  }
+}
+
+function printSessionList(sessions: SessionSummary[], currentId?: string): void {
+  if (sessions.length === 0) {
+    console.log(chalk.yellow('No sessions found.'));
+    return;
+  }
+  console.log();
+  console.log(chalk.bold('Sessions (most recent first):'));
+  for (const session of sessions) {
+    const current = session.id === currentId ? chalk.green(' (current)') : '';
+    const updated = new Date(session.updatedAt).toLocaleString();
+    const parent = session.parentId ? ` · sub-agent of ${session.parentId.slice(0, 8)}` : '';
+    console.log(chalk.cyan(`  ${session.id.slice(0, 8)}`) + `  ${session.title}` + current);
+    console.log(chalk.dim(`            ${updated} · ${session.messageCount} messages${parent}`));
+  }
+  console.log();
+}
+
+function printSession(session: Session, subSessions: SessionSummary[] = []): void {
+  console.log();
+  console.log(chalk.bold(session.title ?? session.id));
+  console.log(chalk.dim(`  ${session.id} · created ${new Date(session.createdAt).toLocaleString()}`));
+  if (session.parentId) {
+    console.log(chalk.dim(`  Sub-agent of session ${session.parentId}`));
+  }
+  console.log();
+  for (const msg of session.messages) {
+    for (const part of msg.parts ?? []) {
+      if (part.text && !part.thought) {
+        const label = msg.role === 'user' ? chalk.blue('You:') : chalk.green('Agent:');
+        console.log(label, part.text);
+      }
+      if (part.functionCall) {
+        const args = JSON.stringify(part.functionCall.args ?? {});
+        console.log(chalk.cyan(`  → ${part.functionCall.name}`), chalk.dim(args.slice(0, 200)));
+      }
+      if (part.functionResponse) {
+        const response = part.functionResponse.response ?? {};
+        const text = String(response.error ?? response.result ?? '');
+        const color = response.error ? chalk.red : chalk.dim;
+        console.log(color(`  ← ${part.functionResponse.name}: ${text.slice(0, 200)}`));
+      }
+    }
+  }
+  if (subSessions.length > 0) {
+    console.log();
+    console.log(chalk.bold('Sub-agent sessions:'));
+    for (const sub of subSessions) {
+      console.log(chalk.cyan(`  ${sub.id.slice(0, 8)}`) + `  ${sub.title}` + chalk.dim(` · ${sub.messageCount} messages`));
+    }
+  }
+  console.log();
+}
+
+function printContextBreakdown(breakdown: ContextBreakdown, messages: number, session: TokenUsage): void {
+  const format = (tokens: number) => tokens.toLocaleString().padStart(10);
+  const percent = (tokens: number) => `${((tokens / breakdown.window) * 100).toFixed(1)}%`;
+  const rows: Array<[string, number]> = [
+    ['System prompt and tools', breakdown.categories.system],
+    ['User messages', breakdown.categories.user],
+    ['Model responses', breakdown.categories.model],
+    ['Tool calls', breakdown.categories.toolCalls],
+    ['Tool results', breakdown.categories.toolResults],
+  ];
+
+  console.log();
+  console.log(chalk.bold(`Context (${breakdown.model}, ${messages} messages):`));
+  for (const [label, tokens] of rows) {
+    console.log(chalk.dim(`  ${label.padEnd(24)}${format(tokens)}`));
+  }
+  console.log(`  ${'Total'.padEnd(24)}${format(breakdown.total)}  ${percent(breakdown.total)} of ${breakdown.window.toLocaleString()}`);
+  console.log(chalk.dim(`  Compacts at ${breakdown.threshold.toLocaleString()} tokens`));
+  if (breakdown.estimated) {
+    console.log(chalk.yellow('  Some counts are estimates (~4 characters per token).'));
+  }
+  if (session.requests > 0) {
+    console.log(
+      chalk.dim(
+        `  This session: ${session.promptTokens.toLocaleString()} input + ` +
+          `${session.outputTokens.toLocaleString()} output tokens over ${session.requests} requests`
+      )
+    );
+  }
+  console.log();
+}
+
+function printUsageTable(rows: Array<[string, UsageTotals]>, total?: UsageTotals): void {
+  const labelWidth = Math.max(24, ...rows.map(([label]) => label.length + 2));
+  const format = (n: number) => n.toLocaleString().padStart(12);
+  const row = (label: string, totals: UsageTotals) =>
+    `  ${label.padEnd(labelWidth)}${String(totals.calls).padStart(6)}${format(totals.promptTokens)}` +
+    `${format(totals.cachedTokens)}${format(totals.outputTokens)}${formatCost(totals.cost).padStart(11)}`;
+  console.log(
+    chalk.dim(
+      `  ${''.padEnd(labelWidth)}${'Calls'.padStart(6)}${'Input'.padStart(12)}` +
+        `${'Cached'.padStart(12)}${'Output'.padStart(12)}${'Cost'.padStart(11)}`
+    )
+  );
+  for (const [label, totals] of rows) {
+    console.log(row(label, totals));
+  }
+  if (total && rows.length > 1) {
+    console.log(chalk.bold(row('Total', total)));
+  }
+  const unpriced = total?.unpricedCalls ?? rows.reduce((sum, [, totals]) => sum + totals.unpricedCalls, 0);
+  if (unpriced > 0) {
+    console.log(chalk.yellow(`  ${unpriced} call(s) use a model without a price; add it under "pricing" in settings.`));
+  }
+}
+
+function usageLabel(record: UsageRecord): string {
+  return record.purpose === 'compaction' ? `${record.model} (compaction)` : record.model;
+}
+
+function printBudget(budget: BudgetSettings, session: UsageTotals, today: UsageTotals): void {
+  const lines: string[] = [];
+  if (budget.sessionTokens !== undefined) {
+    lines.push(`session tokens ${session.totalTokens.toLocaleString()} of ${budget.sessionTokens.toLocaleString()}`);
+  }
+  if (budget.sessionCost !== undefined) {
+    lines.push(`session cost ${formatCost(session.cost)} of ${formatCost(budget.sessionCost)}`);
+  }
+  if (budget.dailyCost !== undefined) {
+    lines.push(`today ${formatCost(today.cost)} of ${formatCost(budget.dailyCost)}`);
+  }
+  if (lines.length > 0) {
+    console.log(chalk.dim(`  Budget: ${lines.join(' · ')}`));
+  }
+}
+
+/** `/usage`: the current session including its sub-agents, by model. */
+function printSessionUsage(agent: Agent, history: HistoryManager, settings: SettingsManager): void {
+  const sessionId = history.getCurrentSession()?.id;
+  const records = sessionId ? history.getUsage(history.getRootSessionId(sessionId), true) : [];
+  console.log();
+  if (records.length === 0) {
+    console.log(chalk.dim('No model requests recorded in this session yet.'));
+    console.log();
+    return;
+  }
+  const usage = agent.getUsage();
+  const hops = records.filter(record => record.purpose === 'turn').length;
+  console.log(chalk.bold(`Usage of this session (${hops} hops, estimated cost):`));
+  printUsageTable([...groupUsage(records, usageLabel, settings.getPricing())], usage.session);
+  console.log(chalk.dim(`  Today in this project: ${usage.today.calls} calls, ${formatCost(usage.today.cost)}`));
+  printBudget(settings.getBudget(), usage.session, usage.today);
+  console.log();
+}
+
+const RETRY_REASONS: Record<RetryEvent['reason'], string> = {
+  rate_limit: 'Rate limit hit',
+  server_error: 'Server error',
+  network: 'Network error',
+  timeout: 'Request timed out',
+};
+
+function describeRetry(event: RetryEvent): string {
+  const seconds = Math.max(1, Math.round(event.delayMs / 1000));
+  return `[${RETRY_REASONS[event.reason]}. Retrying in ${seconds}s (${event.attempt}/${event.maxRetries})...]`;
+}
+
+/**
+ * Prints what the chat shows besides the turn itself: context size before
+ * each request, retries, including those of sub-agents, and compaction.
+ */
+function renderAgentEvent(event: AgentEvent): void {
+  switch (event.type) {
+    case 'hop': {
+      const count = `${event.estimated ? '~' : ''}${event.tokens.toLocaleString()}`;
+      console.log(
+        chalk.dim(`[Hop ${event.hop}] Context: ${event.messages} messages, ${count} tokens (compacts at ${event.threshold.toLocaleString()})`)
+      );
+      break;
+    }
+
+    case 'retry': {
+      console.log(chalk.yellow(`\n${describeRetry(event)}`));
+      break;
+    }
+
+    case 'subagent': {
+      if (event.event.type === 'retry') {
+        renderAgentEvent(event.event);
+      }
+      break;
+    }
+
+    case 'compaction_start': {
+      console.log(chalk.yellow(`\n[Context size ${event.tokens} tokens exceeds limit ${event.threshold}]`));
+      break;
+    }
+
+    case 'compaction': {
+      if (event.result) {
+        console.log(chalk.dim(`[Compacted ${event.result.messagesBefore} messages to ${event.result.messagesAfter}]`));
+      }
+      break;
+    }
+  }
+}
+
+function printMemory(memory: MemoryManager, projectDir: string): void {
+  console.log();
+  for (const scope of ['project', 'user'] as const) {
+    const filePath = memory.getPath(scope);
+    const shown = scope === 'project' ? path.relative(projectDir, filePath) : filePath;
+    const content = memory.read(scope);
+    console.log(chalk.bold(`${scope === 'project' ? 'Project' : 'User'} memory (${shown}):`));
+    if (content === null || !content.trim()) {
+      console.log(chalk.dim(scope === 'project' ? '  (none - create it with /init or /memory edit)' : '  (none)'));
+    } else {
+      console.log(content.trimEnd());
+    }
+    console.log();
+  }
+}
+
+function describeCheckpointFiles(checkpoint: Checkpoint): string {
+  return checkpoint.files
+    .map(file => (file.existed ? file.path : `${file.path} (new)`))
+    .join(', ');
+}
+
+function printRevertedCheckpoints(reverted: Checkpoint[]): void {
+  for (const checkpoint of reverted) {
+    console.log(chalk.green(`Reverted "${checkpoint.prompt}"`));
+    console.log(chalk.dim(`  ${describeCheckpointFiles(checkpoint)}`));
+  }
+}
+
+function parseExportFormat(value: string | undefined): ExportFormat | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const format = value.toLowerCase() === 'md' ? 'markdown' : value.toLowerCase();
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`Unknown export format "${value}". Use ${EXPORT_FORMATS.join(', ')}.`);
+  }
+  return format as ExportFormat;
+}
+
+/**
+ * `/export [format] [file]`: writes the current session, by default as
+ * Markdown to .gemini/exports/<session id>.md.
+ */
+function exportCurrentSession(history: HistoryManager, projectDir: string, args: string[]): void {
+  const session = history.getCurrentSession();
+  if (!session) {
+    console.log(chalk.dim('No active session to export.'));
+    return;
+  }
+  let format: ExportFormat | undefined;
+  let file: string | undefined;
+  for (const arg of args) {
+    const lower = arg.toLowerCase();
+    if (!format && (lower === 'md' || EXPORT_FORMATS.includes(lower as ExportFormat))) {
+      format = parseExportFormat(arg);
+    } else {
+      file = arg;
+    }
+  }
+  format ??= (file && formatFromPath(file)) || 'markdown';
+  const outPath = file
+    ? path.resolve(projectDir, file)
+    : path.join(projectDir, GEMINI_DIR, EXPORTS_DIR, `${session.id.slice(0, 8)}${EXPORT_EXTENSIONS[format]}`);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, exportSession(session, format, history.getSubSessions(session.id)));
+  console.log(chalk.green(`Exported session to ${path.relative(projectDir, outPath)}`));
+}
+
 function showHelp(): void {
   console.log();
   console.log(chalk.bold('Available commands:'));
-  console.log(chalk.cyan('  /plan') + '      - Toggle plan mode (agent creates plan before executing)');
+  console.log(chalk.cyan('  /plan') + '      - Toggle plan mode (read-only; agent submits a plan for approval)');
+  console.log(chalk.cyan('  /plan show') + ' - Show the session\'s plan and its progress');
+  console.log(chalk.cyan('  /plan review') + ' - Approve, edit or reject a plan waiting for review');
   console.log(chalk.cyan('  /clear') + '     - Clear conversation history and start fresh');
-  console.log(chalk.cyan('  /context') + '   - Show current context size');
+  console.log(chalk.cyan('  /context') + '   - Show context token usage by category');
+  console.log(chalk.cyan('  /usage') + '     - Show tokens, calls and estimated cost of this session');
+  console.log(chalk.cyan('  /compact') + '   - Summarize older messages, keeping recent turns');
+  console.log(chalk.cyan('  /memory') + '    - Show project and user instructions (/memory edit [user], /memory add <note>)');
+  console.log(chalk.cyan('  /init') + '      - Have the agent write .gemini/AGENT.md for this project');
+  console.log(chalk.cyan('  /mcp') + '       - Show MCP servers and their tools');
   console.log(chalk.cyan('  /reset') + '     - Reset all permissions to ask mode');
   console.log(chalk.cyan('  /model <name>') + ' - Switch model (e.g., /model gemini-2.5-flash)');
   console.log(chalk.cyan('  /models') + '    - List text + tool-call friendly models');
+  console.log(chalk.cyan('  /sessions') + '  - List saved sessions');
+  console.log(chalk.cyan('  /resume <id>') + ' - Resume a saved session by id or id prefix');
+  console.log(chalk.cyan('  /export [format] [file]') + ' - Export this session as markdown (default), html or json');
+  console.log(chalk.cyan('  /undo') + '      - Revert file changes made in the last turn');
+  console.log(chalk.cyan('  /checkpoints') + ' - List file checkpoints in this session');
+  console.log(chalk.cyan('  /restore <id>') + ' - Revert files to their state before a checkpoint');
   console.log(chalk.cyan('  /help') + '      - Show this help message');
   console.log(chalk.cyan('  /exit') + '      - Exit the session');
   console.log();
@@ -81,10 +714,13 @@ program
   .command('chat')
   .description('Start an interactive coding session')
   .option('-p, --project <dir>', 'Project directory', '.')
-  .option('-r, --resume', 'Resume last session', false)
+  .option('-r, --resume [id]', 'Resume a session by id, or the last session when no id is given')
   .option('--demo', 'Run demos instead of chat', false)
+  .option('--replay <file>', 'Replay scripted model responses from a JSON file instead of calling Gemini')
   .action(async (options) => {
     if (options.demo) {
+      // Imported lazily: demos.ts requires GEMINI_API_KEY at load time.
+      const { runDemos } = await import('./demos.js');
       await runDemos();
       return;
     }
@@ -94,8 +730,31 @@ program
 
     const settings = new SettingsManager(projectDir);
     const history = new HistoryManager(projectDir);
+    const checkpoints = new CheckpointManager(projectDir);
+    const memory = new MemoryManager(projectDir);
+    const { tools, mcp } = await loadTools(projectDir, settings);
+    const mcpToolCount = mcp.getStatus().reduce((count, server) => count + server.tools.length, 0);
+    const projectTools = tools.getNames().length - Object.keys(TOOL_NAMES).length - mcpToolCount;
+    if (projectTools > 0) {
+      console.log(chalk.dim(`Loaded ${projectTools} project tool(s) from .gemini/tools`));
+    }
+    for (const server of mcp.getStatus().filter(server => server.connected)) {
+      console.log(chalk.dim(`Connected to MCP server "${server.name}" (${server.tools.length} tools)`));
+    }
 
-    if (options.resume) {
+    let provider: ModelProvider | undefined;
+    if (options.replay) {
+      provider = ScriptedProvider.fromFile(path.resolve(options.replay));
+      console.log(chalk.dim(`Replaying model responses from ${options.replay}`));
+    }
+
+    if (typeof options.resume === 'string') {
+      const session = history.resumeSession(options.resume);
+      if (!session) {
+        throw new Error(`Session not found: ${options.resume}`);
+      }
+      console.log(chalk.dim(`Resumed session "${session.title ?? session.id}"`));
+    } else if (options.resume) {
       const lastSession = history.resumeLastSession();
       if (lastSession) {
         console.log(chalk.dim(`Resumed session from ${lastSession.createdAt}`));
@@ -108,7 +767,7 @@ program
       console.log(chalk.dim('New session started'));
     }
 
-    const permissionPrompt: PermissionPromptFn = async (tool, args, description) => {
+    const permissionPrompt: PermissionPromptFn = async (tool, args, description, subject, preview) => {
       console.log();
       console.log(chalk.cyan('Agent wants to:'), description);
 
@@ -118,47 +777,75 @@ program
       if (args.command) {
         console.log(chalk.dim(`  Command: ${args.command}`));
       }
+      if (preview) {
+        console.log();
+        printDiff(preview);
+        console.log();
+      }
 
-      const choice = await select({
-        message: 'Allow this action?',
-        choices: [
-          { name: 'Yes (this time only)', value: 'yes' },
-          { name: 'Always allow this type of action', value: 'always' },
-          { name: 'No, deny', value: 'no' },
-        ],
-      });
+      const choices = [
+        { name: 'Yes (this time only)', value: 'yes' },
+        { name: 'Always allow this type of action', value: 'always' },
+        { name: 'No, deny', value: 'no' },
+        { name: 'No, and tell the agent why', value: 'reason' },
+      ];
+      // An exact pattern never matches a command line with several commands.
+      if (subject && (subject.kind === 'path' || isSimpleCommand(subject.value))) {
+        const label = subject.kind === 'command' ? 'command' : 'path';
+        choices.splice(1, 0, {
+          name: `Always allow this exact ${label} (${subject.value})`,
+          value: 'pattern',
+        });
+      }
+
+      let choice: string;
+      let reason: string | undefined;
+      try {
+        choice = await select({
+          message: 'Allow this action?',
+          choices,
+        });
+        if (choice === 'reason') {
+          reason = (await input({ message: 'Reason (sent to the agent):' })).trim() || undefined;
+        }
+      } catch (err) {
+        // Ctrl-C in the prompt interrupts the turn instead of exiting.
+        if (isPromptExitError(err) && activeTurn) {
+          activeTurn.abort(new Error(INTERRUPTED_MESSAGE));
+          console.log(chalk.yellow('Interrupting...'));
+          return { granted: false, alwaysAllow: false, reason: INTERRUPTED_MESSAGE };
+        }
+        throw err;
+      }
 
       const response: PermissionResponse = {
-        granted: choice !== 'no',
-        alwaysAllow: choice === 'always',
+        granted: choice !== 'no' && choice !== 'reason',
+        alwaysAllow: choice === 'always' || choice === 'pattern',
+        pattern: choice === 'pattern' && subject ? escapeGlob(subject.value) : undefined,
+        reason,
       };
 
       return response;
     };
 
-    const toolLog = (tool: string, args: Record<string, unknown>, result: ToolResult) => {
-      if (result.error) {
-        console.log(chalk.red(`  Error: ${result.error}`));
-      } else if (result.output) {
-        const preview = result.output.slice(0, 200);
-        const truncated = result.output.length > 200 ? '...' : '';
-        console.log(chalk.dim(`  Result: ${preview}${truncated}`));
-      }
-    };
-
-    const contextLog = (hop: number, messages: number, chars: number, tokens: number) => {
-      console.log(chalk.dim(`[Hop ${hop}] Context: ${messages} messages, ~${tokens} tokens, ${chars} chars`));
-    };
-
     let agent = new Agent({
       projectDir,
       settings,
       history,
       onPermissionPrompt: permissionPrompt,
-      onToolCall: toolLog,
-      onContextLog: contextLog,
+      onEvent: renderAgentEvent,
+      provider,
+      checkpoints,
+      memory,
+      tools,
     });
 
+    const pendingPlan = agent.getPlan();
+    if (pendingPlan?.status === 'proposed') {
+      printPlan(pendingPlan);
+      console.log(chalk.yellow('This plan is waiting for review. Use /plan review to approve, edit or reject it.'));
+    }
+
     console.log();
     console.log(chalk.green('Ready! Type your request, or "exit" to quit.'));
     console.log(chalk.dim('Type /help for available commands.'));
@@ -202,22 +889,25 @@ program
                 settings,
                 history,
                 onPermissionPrompt: permissionPrompt,
-                onToolCall: toolLog,
-                onContextLog: contextLog,
+                onEvent: renderAgentEvent,
+                provider,
+                checkpoints,
+                memory,
+                tools,
               });
               console.log(chalk.green('Conversation history cleared. New session started.'));
               break;
             }
 
             case 'context': {
-              const contextSize = agent.getContextSize();
-              const tokens = Math.ceil(contextSize / 4);
-              console.log();
-              console.log(chalk.bold('Context Information:'));
-              console.log(chalk.dim(`  Messages: ${history.getMessages().length}`));
-              console.log(chalk.dim(`  Characters: ${contextSize}`));
-              console.log(chalk.dim(`  Estimated tokens: ~${tokens}`));
-              console.log();
+              const spinner = ora('Counting tokens...').start();
+              try {
+                const breakdown = await agent.getContextBreakdown();
+                spinner.stop();
+                printContextBreakdown(breakdown, history.getMessages().length, agent.getTokenUsage().session);
+              } catch (err) {
+                spinner.fail(`Failed to count tokens: ${String(err)}`);
+              }
               break;
             }
 
@@ -293,11 +983,181 @@ program
               break;
             }
 
+            case 'sessions': {
+              printSessionList(history.listSessions(), history.getCurrentSession()?.id);
+              break;
+            }
+
+            case 'export': {
+              try {
+                exportCurrentSession(history, projectDir, args);
+              } catch (err) {
+                console.log(chalk.red(`Export failed: ${String(err)}`));
+              }
+              break;
+            }
+
+            case 'resume': {
+              if (args.length === 0) {
+                console.log(chalk.dim('Usage: /resume <session-id>'));
+                break;
+              }
+              try {
+                const session = history.resumeSession(args[0]);
+                if (!session) {
+                  console.log(chalk.red(`Session not found: ${args[0]}`));
+                  break;
+                }
+                console.log(chalk.green(`Resumed session "${session.title ?? session.id}" (${session.messages.length} messages)`));
+              } catch (err) {
+                console.log(chalk.red(String(err)));
+              }
+              break;
+            }
+
+            case 'compact': {
+              const spinner = ora('Summarizing older messages...').start();
+              try {
+                const result = await agent.compactHistory();
+                if (!result) {
+                  spinner.info('Nothing to compact yet.');
+                  break;
+                }
+                spinner.succeed(
+                  `Compacted ${result.messagesBefore} messages to ${result.messagesAfter} ` +
+                    `(${result.summarizedMessages} summarized).`
+                );
+                if (result.archivePath) {
+                  console.log(chalk.dim(`  Previous transcript saved to ${path.relative(projectDir, result.archivePath)}`));
+                }
+              } catch (err) {
+                spinner.fail(`Compaction failed: ${String(err)}`);
+              }
+              break;
+            }
+
+            case 'usage': {
+              printSessionUsage(agent, history, settings);
+              break;
+            }
+
+            case 'mcp': {
+              printMcpServers(mcp);
+              break;
+            }
+
+            case 'memory': {
+              const action = args[0]?.toLowerCase();
+              if (!action) {
+                printMemory(memory, projectDir);
+                break;
+              }
+              if (action === 'add') {
+                const note = args.slice(1).join(' ').trim();
+                if (!note) {
+                  console.log(chalk.red('Usage: /memory add <note>'));
+                  break;
+                }
+                memory.append('project', `- ${note}`);
+                console.log(chalk.green(`Added to ${path.relative(projectDir, memory.getPath('project'))}`));
+                break;
+              }
+              if (action === 'edit') {
+                const scope: MemoryScope = args[1]?.toLowerCase() === 'user' ? 'user' : 'project';
+                const content = await editor({
+                  message: `Edit ${memory.getPath(scope)}`,
+                  default: memory.read(scope) ?? '',
+                  postfix: '.md',
+                  waitForUserInput: false,
+                });
+                memory.write(scope, content);
+                console.log(chalk.green(`Saved ${memory.getPath(scope)}`));
+                break;
+              }
+              console.log(chalk.red('Usage: /memory [edit [user] | add <note>]'));
+              break;
+            }
+
+            case 'init': {
+              if (memory.read('project') !== null) {
+                console.log(chalk.dim('Updating the existing project memory file.'));
+              }
+              try {
+                await renderAgentTurn(agent, INIT_PROMPT);
+              } catch (err) {
+                console.log(chalk.red('Error:'), String(err));
+              }
+              break;
+            }
+
+            case 'undo': {
+              const sessionId = history.getCurrentSession()?.id;
+              const checkpoint = sessionId ? checkpoints.undoLast(sessionId) : null;
+              if (!checkpoint) {
+                console.log(chalk.yellow('Nothing to undo in this session.'));
+                break;
+              }
+              printRevertedCheckpoints([checkpoint]);
+              break;
+            }
+
+            case 'checkpoints': {
+              const sessionId = history.getCurrentSession()?.id;
+              const list = sessionId ? checkpoints.list(sessionId) : [];
+              if (list.length === 0) {
+                console.log(chalk.yellow('No checkpoints in this session.'));
+                break;
+              }
+              console.log();
+              console.log(chalk.bold('Checkpoints (oldest first):'));
+              for (const checkpoint of list) {
+                const created = new Date(checkpoint.createdAt).toLocaleString();
+                console.log(chalk.cyan(`  ${checkpoint.id.slice(0, 8)}`) + `  ${checkpoint.prompt}`);
+                console.log(chalk.dim(`            ${created} · ${describeCheckpointFiles(checkpoint)}`));
+              }
+              console.log();
+              console.log(chalk.dim('Commands run with run_command are not tracked.'));
+              break;
+            }
+
+            case 'restore': {
+              const sessionId = history.getCurrentSession()?.id;
+              if (args.length === 0 || !sessionId) {
+                console.log(chalk.dim('Usage: /restore <checkpoint-id>'));
+                break;
+              }
+              try {
+                printRevertedCheckpoints(checkpoints.restore(sessionId, args[0]));
+              } catch (err) {
+                console.log(chalk.red(String(err)));
+              }
+              break;
+            }
+
             case 'plan': {
+              if (args[0]?.toLowerCase() === 'review') {
+                if (agent.getPlan()?.status === 'proposed') {
+                  await reviewPlan(agent);
+                } else {
+                  console.log(chalk.yellow('There is no plan waiting for review.'));
+                }
+                break;
+              }
+              if (args[0]?.toLowerCase() === 'show') {
+                const plan = agent.getPlan();
+                if (plan) {
+                  printPlan(plan);
+                } else {
+                  console.log(chalk.yellow('This session has no plan.'));
+                }
+                break;
+              }
               const currentMode = agent.isPlanMode();
               agent.setPlanMode(!currentMode);
               if (!currentMode) {
-                console.log(chalk.green('Plan mode enabled. Agent will create plans before executing.'));
+                console.log(
+                  chalk.green('Plan mode enabled. The agent can only read and will submit a plan for your approval.')
+                );
               } else {
                 console.log(chalk.dim('Plan mode disabled.'));
               }
@@ -313,16 +1173,10 @@ program
           continue;
         }
 
-        const spinner = ora('Agent thinking...').start();
-
         try {
-          const response = await agent.processMessage(userInput);
-          spinner.stop();
-          console.log();
-          console.log(chalk.green('Agent:'), response);
-          console.log();
+          await renderAgentTurn(agent, userInput);
+          await reviewPlan(agent);
         } catch (err) {
-          spinner.stop();
           console.log();
           console.log(chalk.red('Error:'), String(err));
           console.log();
@@ -337,6 +1191,283 @@ program
     }
   });
 
+program
+  .command('run')
+  .description('Run a single prompt non-interactively and exit')
+  .argument('[prompt]', 'Prompt to send; read from stdin when omitted or "-"')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .option('--permissions <policy>', 'Permission policy: "settings" (saved permissions) or "deny" (deny all)', 'settings')
+  .option('--allow <tools>', 'Comma-separated tools or permission keys to allow, e.g. read_file,list_dir')
+  .option('-o, --output <format>', 'Output format: "text" or "json"', 'text')
+  .option('--replay <file>', 'Replay scripted model responses from a JSON file instead of calling Gemini')
+  .action(async (promptArg: string | undefined, options) => {
+    const policy = options.permissions as PermissionPolicy;
+    if (policy !== 'settings' && policy !== 'deny') {
+      console.error(chalk.red(`Invalid permission policy: ${options.permissions}`));
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+    if (options.output !== 'text' && options.output !== 'json') {
+      console.error(chalk.red(`Invalid output format: ${options.output}`));
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+    const json = options.output === 'json';
+
+    let prompt = promptArg;
+    if (prompt === undefined || prompt === '-') {
+      if (process.stdin.isTTY) {
+        console.error(chalk.red('No prompt given. Pass it as an argument or pipe it on stdin.'));
+        process.exitCode = EXIT_CODES.USAGE;
+        return;
+      }
+      prompt = await readStdin();
+    }
+    if (!prompt.trim()) {
+      console.error(chalk.red('Prompt is empty.'));
+      process.exitCode = EXIT_CODES.USAGE;
+      return;
+    }
+
+    const projectDir = path.resolve(options.project);
+    const settings = new SettingsManager(projectDir);
+    const { tools } = await loadTools(projectDir, settings);
+    const allowed = new Set<string>(
+      String(options.allow ?? '')
+        .split(',')
+        .map((tool: string) => tool.trim())
+        .filter(Boolean)
+        .map((tool: string) => tools.getPermissionKey(tool))
+    );
+    const history = new HistoryManager(projectDir);
+    history.createSession();
+
+    // Nobody can answer a prompt here: anything not already allowed is denied.
+    const denial = policy === 'deny'
+      ? 'Denied by --permissions deny policy (not in --allow)'
+      : 'Denied by --permissions settings policy (not allowed in settings or by --allow)';
+    const permissionPrompt: PermissionPromptFn = async (tool) => ({
+      granted: allowed.has(tool),
+      alwaysAllow: false,
+      denial,
+      source: 'policy',
+    });
+
+    const output: RunOutput = {
+      text: '',
+      reason: 'complete',
+      toolCalls: [],
+      tokens: { context: 0, response: 0 },
+    };
+
+    try {
+      const agent = new Agent({
+        projectDir,
+        settings,
+        history,
+        onPermissionPrompt: permissionPrompt,
+        provider: options.replay ? ScriptedProvider.fromFile(path.resolve(options.replay)) : undefined,
+        useSavedPermissions: policy === 'settings',
+        tools,
+        // Kept off stdout, which carries the answer or the JSON output.
+        onEvent: event => {
+          const own = event.type === 'subagent' ? event.event : event;
+          if (own.type === 'retry') {
+            console.error(chalk.yellow(describeRetry(own)));
+          } else if (event.type === 'compaction' && event.result) {
+            console.error(chalk.dim(`[Compacted ${event.result.messagesBefore} messages to ${event.result.messagesAfter}]`));
+          }
+        },
+      });
+
+      let textSinceLastTool = false;
+      for await (const event of agent.streamMessage(prompt)) {
+        switch (event.type) {
+          case 'text': {
+            if (!json) {
+              process.stdout.write(event.text);
+            }
+            textSinceLastTool = true;
+            break;
+          }
+
+          case 'tool_call': {
+            if (!json) {
+              if (textSinceLastTool) {
+                process.stdout.write('\n');
+              }
+              console.error(chalk.cyan('Tool:'), event.description);
+            }
+            textSinceLastTool = false;
+            break;
+          }
+
+          case 'tool_output': {
+            if (!json) {
+              process.stderr.write(chalk.dim(event.text));
+            }
+            break;
+          }
+
+          case 'tool_result': {
+            output.toolCalls.push({
+              name: event.name,
+              args: event.args,
+              granted: event.granted,
+              error: event.result.error,
+            });
+            if (!json && event.result.error) {
+              console.error(chalk.red(`  Error: ${event.result.error}`));
+            }
+            break;
+          }
+
+          case 'done': {
+            output.text = event.text;
+            output.reason = event.reason;
+            if (!json) {
+              if (!textSinceLastTool || event.reason === 'max_hops' || event.reason === 'budget') {
+                process.stdout.write(event.text);
+              }
+              process.stdout.write('\n');
+            }
+            break;
+          }
+        }
+      }
+
+      output.tokens = {
+        context: await agent.getContextTokens(),
+        response: agent.getTokenUsage().turn.outputTokens,
+      };
+    } catch (err) {
+      if (json) {
+        console.log(JSON.stringify({ ...output, error: String(err) }, null, 2));
+      } else {
+        console.error(chalk.red('Error:'), String(err));
+      }
+      process.exitCode = EXIT_CODES.ERROR;
+      return;
+    }
+
+    if (json) {
+      console.log(JSON.stringify(output, null, 2));
+    }
+    if (output.reason === 'max_hops') {
+      process.exitCode = EXIT_CODES.MAX_HOPS;
+    } else {
+      process.exitCode = output.reason === 'budget' ? EXIT_CODES.BUDGET : EXIT_CODES.SUCCESS;
+    }
+  });
+
+program
+  .command('usage')
+  .description('Report tokens, calls and estimated cost across sessions by day and model')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .option('-d, --days <n>', 'Number of days to include, ending today', '30')
+  .option('--json', 'Print the report as JSON', false)
+  .action((options) => {
+    const projectDir = path.resolve(options.project);
+    const days = Number.parseInt(options.days, 10);
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(`Invalid --days: ${options.days}`);
+    }
+    const settings = new SettingsManager(projectDir);
+    const history = new HistoryManager(projectDir);
+    const pricing = settings.getPricing();
+    const since = new Date();
+    since.setDate(since.getDate() - (days - 1));
+    const firstDay = usageDay(since);
+    const records = history
+      .getAllUsage()
+      .filter(record => usageDay(record.timestamp) >= firstDay)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const groups = groupUsage(records, record => `${usageDay(record.timestamp)}  ${record.model}`, pricing);
+    const total = sumUsage(records, pricing);
+
+    if (options.json) {
+      const rows = [...groups].map(([key, totals]) => {
+        const [day, model] = key.split('  ');
+        return { day, model, ...totals };
+      });
+      console.log(JSON.stringify({ since: firstDay, rows, total }, null, 2));
+      return;
+    }
+    console.log();
+    if (records.length === 0) {
+      console.log(chalk.dim(`No model requests recorded since ${firstDay}.`));
+      console.log();
+      return;
+    }
+    console.log(chalk.bold(`Usage since ${firstDay} (estimated cost):`));
+    printUsageTable([...groups], total);
+    console.log();
+  });
+
+const sessionsCommand = program
+  .command('sessions')
+  .description('Browse, inspect and manage saved sessions');
+
+sessionsCommand
+  .command('list')
+  .description('List saved sessions, most recent first')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .action((options) => {
+    const history = new HistoryManager(path.resolve(options.project));
+    printSessionList(history.listSessions());
+  });
+
+sessionsCommand
+  .command('show')
+  .description('Print the conversation of a session')
+  .argument('<id>', 'Session id or unique id prefix')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .action((id: string, options) => {
+    const history = new HistoryManager(path.resolve(options.project));
+    const session = history.findSession(id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    printSession(session, history.getSubSessions(session.id));
+  });
+
+sessionsCommand
+  .command('delete')
+  .description('Delete a session')
+  .argument('<id>', 'Session id or unique id prefix')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .action((id: string, options) => {
+    const history = new HistoryManager(path.resolve(options.project));
+    const session = history.deleteSession(id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    console.log(chalk.green(`Deleted session ${session.id}`));
+  });
+
+sessionsCommand
+  .command('export')
+  .description('Export a session as Markdown, HTML or JSON')
+  .argument('<id>', 'Session id or unique id prefix')
+  .option('-p, --project <dir>', 'Project directory', '.')
+  .option('-f, --format <format>', `${EXPORT_FORMATS.join(', ')} (default: from --out, else json)`)
+  .option('-o, --out <file>', 'Write to a file instead of stdout')
+  .action((id: string, options) => {
+    const history = new HistoryManager(path.resolve(options.project));
+    const session = history.findSession(id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    const format = parseExportFormat(options.format) ?? (options.out && formatFromPath(options.out)) ?? 'json';
+    const content = exportSession(session, format, history.getSubSessions(session.id));
+    if (options.out) {
+      fs.writeFileSync(path.resolve(options.out), content);
+      console.log(chalk.green(`Exported session to ${options.out}`));
+    } else {
+      process.stdout.write(content);
+    }
+  });
+
 program.parseAsync().catch((err) => {
   if (isPromptExitError(err)) {
     console.log(chalk.dim('\nGoodbye!'));
@@ -1,4 +1,43 @@
-import { runDemos } from './demos.js';
-
-runDemos().catch(console.error);
+// Package entry point for using the agent as a library, e.g. from an editor
+// extension or a web UI. The CLI in cli.ts is one client of this API.
 
+export {
+  Agent,
+  EXECUTE_PLAN_PROMPT,
+  INIT_PROMPT,
+  type AgentConfig,
+  type AgentEvent,
+  type AgentEventFn,
+  type AgentStreamEvent,
+  type CompactionResult,
+  type PermissionPromptFn,
+} from './agent/index.js';
+export {
+  GeminiProvider,
+  ScriptedProvider,
+  type ModelProvider,
+  type GenerateContentParams,
+  type GenerateContentResponse,
+  type CountTokensParams,
+  type ScriptedResponse,
+  type UsageMetadata,
+} from './agent/provider.js';
+export {
+  ToolRegistry,
+  type ToolContext,
+  type ToolDefinition,
+  type ToolOutputFn,
+  type SubAgentRequest,
+} from './agent/registry.js';
+export { TOOL_NAMES, createToolRegistry, type BuiltinToolOptions } from './agent/tools.js';
+export { loadCustomTools, type CommandToolSpec, type LoadedTools } from './agent/plugins.js';
+export { McpManager, type McpServerStatus } from './agent/mcp.js';
+export { DEFAULT_RETRY_POLICY, type RetryEvent, type RetryPolicy, type RetryReason } from './agent/retry.js';
+export { MODEL_PRICES, formatCost, sumUsage, type UsageTotals } from './agent/usage.js';
+export { EXPORT_FORMATS, exportSession, toTranscript, type ExportFormat, type Transcript } from './agent/export.js';
+export type { ContextBreakdown, TokenUsage } from './agent/context.js';
+export { SettingsManager } from './storage/settings.js';
+export { HistoryManager } from './storage/history.js';
+export { CheckpointManager } from './storage/checkpoints.js';
+export { MemoryManager, type MemoryScope } from './storage/memory.js';
+export * from './types.js';
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Checkpoint, GEMINI_DIR, CHECKPOINTS_DIR } from '../types.js';
+import { writeFileAtomic } from './atomic.js';
+
+const PROMPT_MAX_LENGTH = 60;
+
+/**
+ * Records the content of files before the agent modifies them, one checkpoint
+ * per session turn, so file changes can be reverted. Stored per session in
+ * `.gemini/checkpoints/<session-id>.json`.
+ */
+export class CheckpointManager {
+  private projectRoot: string;
+  private checkpointsDir: string;
+
+  constructor(projectDir: string) {
+    this.projectRoot = path.resolve(projectDir);
+    this.checkpointsDir = path.join(this.projectRoot, GEMINI_DIR, CHECKPOINTS_DIR);
+  }
+
+  private checkpointsPath(sessionId: string): string {
+    return path.join(this.checkpointsDir, `${sessionId}.json`);
+  }
+
+  private load(sessionId: string): Checkpoint[] {
+    const filePath = this.checkpointsPath(sessionId);
+    if (fs.existsSync(filePath)) {
+      try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      } catch (err) {
+        console.warn(`Invalid checkpoints JSON at ${filePath}. Ignoring checkpoints.`);
+      }
+    }
+    return [];
+  }
+
+  private save(sessionId: string, checkpoints: Checkpoint[]): void {
+    const filePath = this.checkpointsPath(sessionId);
+    if (checkpoints.length === 0) {
+      fs.rmSync(filePath, { force: true });
+      return;
+    }
+    writeFileAtomic(filePath, JSON.stringify(checkpoints, null, 2));
+  }
+
+  /**
+   * Record a file's current state in the checkpoint for this turn. Only the
+   * first snapshot of a file per turn is kept, so the checkpoint always holds
+   * the content from before the turn started.
+   */
+  snapshot(sessionId: string, turn: string, prompt: string, filePath: string): void {
+    const absolutePath = path.resolve(this.projectRoot, filePath);
+    const relativePath = path.relative(this.projectRoot, absolutePath).split(path.sep).join('/');
+    const checkpoints = this.load(sessionId);
+
+    let checkpoint = checkpoints.find(c => c.turn === turn);
+    if (!checkpoint) {
+      const singleLine = prompt.replace(/\s+/g, ' ').trim();
+      checkpoint = {
+        id: uuidv4(),
+        sessionId,
+        turn,
+        prompt: singleLine.length > PROMPT_MAX_LENGTH
+          ? singleLine.slice(0, PROMPT_MAX_LENGTH - 3) + '...'
+          : singleLine,
+        createdAt: new Date().toISOString(),
+        files: [],
+      };
+      checkpoints.push(checkpoint);
+    }
+
+    if (checkpoint.files.some(f => f.path === relativePath)) {
+      return;
+    }
+
+    const existed = fs.existsSync(absolutePath);
+    checkpoint.files.push({
+      path: relativePath,
+      existed,
+      content: existed ? fs.readFileSync(absolutePath).toString('base64') : undefined,
+    });
+    this.save(sessionId, checkpoints);
+  }
+
+  /** Checkpoints of a session, oldest first. */
+  list(sessionId: string): Checkpoint[] {
+    return this.load(sessionId);
+  }
+
+  /** Revert the files changed in the most recent checkpoint. */
+  undoLast(sessionId: string): Checkpoint | null {
+    const checkpoints = this.load(sessionId);
+    const last = checkpoints.pop();
+    if (!last) {
+      return null;
+    }
+    this.revert(last);
+    this.save(sessionId, checkpoints);
+    return last;
+  }
+
+  /**
+   * Return the project to its state before the given checkpoint by reverting
+   * it and every later checkpoint, newest first. Accepts an id prefix.
+   */
+  restore(sessionId: string, idOrPrefix: string): Checkpoint[] {
+    const checkpoints = this.load(sessionId);
+    const matches = checkpoints.filter(c => c.id.startsWith(idOrPrefix));
+    if (matches.length === 0) {
+      throw new Error(`Checkpoint not found: ${idOrPrefix}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Checkpoint id "${idOrPrefix}" is ambiguous (${matches.length} matches)`);
+    }
+
+    const index = checkpoints.indexOf(matches[0]);
+    const reverted = checkpoints.splice(index).reverse();
+    for (const checkpoint of reverted) {
+      this.revert(checkpoint);
+    }
+    this.save(sessionId, checkpoints);
+    return reverted;
+  }
+
+  private revert(checkpoint: Checkpoint): void {
+    for (const file of checkpoint.files) {
+      const absolutePath = path.resolve(this.projectRoot, file.path);
+      if (file.existed) {
+        fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+        fs.writeFileSync(absolutePath, Buffer.from(file.content ?? '', 'base64'));
+      } else {
+        fs.rmSync(absolutePath, { force: true });
+      }
+    }
+  }
+}
@@ -1,48 +1,286 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { History, Session, Content, GEMINI_DIR, HISTORY_FILE } from '../types.js';
+import {
+  History,
+  Session,
+  SessionMeta,
+  SessionIndex,
+  SessionSummary,
+  Content,
+  Plan,
+  UsageRecord,
+  GEMINI_DIR,
+  HISTORY_FILE,
+  SESSIONS_DIR,
+  SESSION_INDEX_FILE,
+  ARCHIVE_DIR,
+  PLAN_FILE_SUFFIX,
+  USAGE_FILE_SUFFIX,
+  PARENT_FILE_SUFFIX,
+} from '../types.js';
+import { writeFileAtomic } from './atomic.js';
 
+const TITLE_MAX_LENGTH = 60;
+
+function deriveTitle(message: Content): string | undefined {
+  if (message.role !== 'user') {
+    return undefined;
+  }
+  const text = (message.parts ?? []).find(p => p.text)?.text;
+  if (!text) {
+    return undefined;
+  }
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? singleLine.slice(0, TITLE_MAX_LENGTH - 3) + '...'
+    : singleLine;
+}
+
+function deriveSessionTitle(messages: Content[]): string | undefined {
+  for (const msg of messages) {
+    const title = deriveTitle(msg);
+    if (title) {
+      return title;
+    }
+  }
+  return undefined;
+}
+
+function toJsonl(messages: Content[]): string {
+  return messages.map(msg => JSON.stringify(msg) + '\n').join('');
+}
+
+function endsWithNewline(filePath: string): boolean {
+  if (!fs.existsSync(filePath)) {
+    return true;
+  }
+  const size = fs.statSync(filePath).size;
+  if (size === 0) {
+    return true;
+  }
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(1);
+    fs.readSync(fd, buffer, 0, 1, size - 1);
+    return buffer[0] === 0x0a;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Read a JSONL file, skipping lines that cannot be parsed (e.g. a torn final write). */
+function readJsonl<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const items: T[] = [];
+  let skipped = 0;
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      items.push(JSON.parse(line));
+    } catch (err) {
+      skipped++;
+    }
+  }
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} unreadable line(s) in ${filePath}.`);
+  }
+  return items;
+}
+
+/**
+ * Stores each session as an append-only JSONL file under `.gemini/sessions/`,
+ * with a small index of session metadata. Messages are only read from disk
+ * when a session is opened.
+ */
 export class HistoryManager {
-  private historyPath: string;
-  private history: History;
+  private sessionsDir: string;
+  private indexPath: string;
+  private legacyPath: string;
+  private index: SessionIndex;
+  /** Set when metadata changed by addMessage is not written to the index yet. */
+  private indexDirty = false;
   private currentSession: Session | null = null;
 
   constructor(projectDir: string) {
     const geminiDir = path.join(projectDir, GEMINI_DIR);
-    this.historyPath = path.join(geminiDir, HISTORY_FILE);
-    this.history = this.load();
+    this.sessionsDir = path.join(geminiDir, SESSIONS_DIR);
+    this.indexPath = path.join(this.sessionsDir, SESSION_INDEX_FILE);
+    this.legacyPath = path.join(geminiDir, HISTORY_FILE);
+    this.index = this.load();
   }
 
-  private load(): History {
-    if (fs.existsSync(this.historyPath)) {
-      const content = fs.readFileSync(this.historyPath, 'utf-8');
+  private load(): SessionIndex {
+    if (fs.existsSync(this.legacyPath)) {
+      this.migrateLegacyHistory();
+    }
+
+    return this.readIndex();
+  }
+
+  /** The index on disk, rebuilt from the session files when it is missing or corrupt. */
+  private readIndex(): SessionIndex {
+    if (fs.existsSync(this.indexPath)) {
       try {
-        return JSON.parse(content);
+        return JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
       } catch (err) {
-        console.warn(`Invalid history JSON at ${this.historyPath}. Using empty history.`);
+        console.warn(`Invalid session index at ${this.indexPath}. Rebuilding from session files.`);
       }
     }
-    return { sessions: [] };
+    if (!fs.existsSync(this.sessionsDir)) {
+      return { sessions: [] };
+    }
+    const rebuilt = this.rebuildIndex();
+    this.saveIndex(rebuilt);
+    return rebuilt;
+  }
+
+  /**
+   * Move sessions from the old single-file `history.json` into per-session
+   * files. The old file is kept as `history.json.migrated`.
+   */
+  private migrateLegacyHistory(): void {
+    let legacy: History;
+    try {
+      legacy = JSON.parse(fs.readFileSync(this.legacyPath, 'utf-8'));
+    } catch (err) {
+      console.warn(`Invalid history JSON at ${this.legacyPath}. Skipping migration.`);
+      return;
+    }
+
+    const existing = this.readIndex();
+    const knownIds = new Set(existing.sessions.map(s => s.id));
+
+    for (const session of legacy.sessions ?? []) {
+      if (knownIds.has(session.id)) {
+        continue;
+      }
+      writeFileAtomic(this.sessionPath(session.id), toJsonl(session.messages));
+      existing.sessions.push({
+        id: session.id,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt ?? session.createdAt,
+        title: session.title ?? deriveSessionTitle(session.messages),
+        messageCount: session.messages.length,
+      });
+    }
+
+    this.saveIndex(existing);
+    fs.renameSync(this.legacyPath, `${this.legacyPath}.migrated`);
+  }
+
+  private rebuildIndex(): SessionIndex {
+    const sessions: SessionMeta[] = [];
+    for (const file of fs.readdirSync(this.sessionsDir)) {
+      if (!file.endsWith('.jsonl') || file.endsWith(USAGE_FILE_SUFFIX)) {
+        continue;
+      }
+      const id = file.slice(0, -'.jsonl'.length);
+      const stat = fs.statSync(path.join(this.sessionsDir, file));
+      const messages = this.readMessages(id);
+      const parentPath = this.parentPath(id);
+      const parentId = fs.existsSync(parentPath) ? fs.readFileSync(parentPath, 'utf-8').trim() || undefined : undefined;
+      sessions.push({
+        id,
+        createdAt: stat.birthtime.toISOString(),
+        updatedAt: stat.mtime.toISOString(),
+        title: deriveSessionTitle(messages),
+        messageCount: messages.length,
+        parentId,
+      });
+    }
+    return { sessions: sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt)) };
+  }
+
+  private saveIndex(index: SessionIndex = this.index): void {
+    writeFileAtomic(this.indexPath, JSON.stringify(index, null, 2));
+    if (index === this.index) {
+      this.indexDirty = false;
+    }
+  }
+
+  /**
+   * Write session metadata changed by `addMessage` to the index. Messages are
+   * appended right away, but the index is only rewritten here, once per turn.
+   */
+  flushIndex(): void {
+    if (this.indexDirty) {
+      this.saveIndex();
+    }
+  }
+
+  private sessionPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}.jsonl`);
+  }
+
+  private planPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}${PLAN_FILE_SUFFIX}`);
+  }
+
+  private usagePath(id: string): string {
+    return path.join(this.sessionsDir, `${id}${USAGE_FILE_SUFFIX}`);
+  }
+
+  private parentPath(id: string): string {
+    return path.join(this.sessionsDir, `${id}${PARENT_FILE_SUFFIX}`);
+  }
+
+  private archiveDir(id: string): string {
+    return path.join(this.sessionsDir, ARCHIVE_DIR, id);
+  }
+
+  private readMessages(id: string): Content[] {
+    return readJsonl<Content>(this.sessionPath(id));
+  }
+
+  private getMeta(id: string): SessionMeta | undefined {
+    return this.index.sessions.find(s => s.id === id);
   }
 
-  private save(): void {
-    const geminiDir = path.dirname(this.historyPath);
-    if (!fs.existsSync(geminiDir)) {
-      fs.mkdirSync(geminiDir, { recursive: true });
+  private openSession(meta: SessionMeta): Session {
+    if (this.currentSession?.id === meta.id) {
+      return this.currentSession;
     }
-    fs.writeFileSync(this.historyPath, JSON.stringify(this.history, null, 2));
+    return {
+      id: meta.id,
+      createdAt: meta.createdAt,
+      updatedAt: meta.updatedAt,
+      title: meta.title,
+      parentId: meta.parentId,
+      messages: this.readMessages(meta.id),
+    };
   }
 
-  createSession(): Session {
+  /**
+   * Start a new session and make it current. With `parentId` it is a
+   * sub-session, e.g. the transcript of a sub-agent, linked to that session.
+   */
+  createSession(parentId?: string): Session {
+    const now = new Date().toISOString();
     const session: Session = {
       id: uuidv4(),
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
+      parentId,
       messages: [],
     };
     this.currentSession = session;
-    this.history.sessions.push(session);
-    this.save();
+    this.index.sessions.push({
+      id: session.id,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+      parentId,
+    });
+    writeFileAtomic(this.sessionPath(session.id), '');
+    if (parentId) {
+      writeFileAtomic(this.parentPath(session.id), parentId);
+    }
+    this.saveIndex();
     return session;
   }
 
@@ -50,11 +288,20 @@ export class HistoryManager {
     return this.currentSession;
   }
 
+  /** The most recently created session that is not a sub-session. */
   getLastSession(): Session | null {
-    if (this.history.sessions.length === 0) {
+    const topLevel = this.index.sessions.filter(s => !s.parentId);
+    if (topLevel.length === 0) {
       return null;
     }
-    return this.history.sessions[this.history.sessions.length - 1];
+    return this.openSession(topLevel[topLevel.length - 1]);
+  }
+
+  /** Sub-sessions of a session, oldest first. */
+  getSubSessions(parentId: string): SessionSummary[] {
+    return this.listSessions()
+      .filter(s => s.parentId === parentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
   resumeLastSession(): Session | null {
@@ -65,17 +312,197 @@ export class HistoryManager {
     return lastSession;
   }
 
+  /**
+   * Find a session by id or unique id prefix. Throws if the prefix matches
+   * more than one session.
+   */
+  findSession(idOrPrefix: string): Session | null {
+    const meta = this.findMeta(idOrPrefix);
+    return meta ? this.openSession(meta) : null;
+  }
+
+  private findMeta(idOrPrefix: string): SessionMeta | null {
+    const exact = this.getMeta(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+    const matches = this.index.sessions.filter(s => s.id.startsWith(idOrPrefix));
+    if (matches.length > 1) {
+      throw new Error(`Session id "${idOrPrefix}" is ambiguous (${matches.length} matches)`);
+    }
+    return matches[0] ?? null;
+  }
+
+  resumeSession(idOrPrefix: string): Session | null {
+    const session = this.findSession(idOrPrefix);
+    if (session) {
+      this.currentSession = session;
+    }
+    return session;
+  }
+
+  /** Delete a session together with its sub-sessions. */
+  deleteSession(idOrPrefix: string): Session | null {
+    const meta = this.findMeta(idOrPrefix);
+    if (!meta) {
+      return null;
+    }
+    for (const child of this.index.sessions.filter(s => s.parentId === meta.id)) {
+      this.deleteSession(child.id);
+    }
+    const session = this.openSession(meta);
+    this.index.sessions = this.index.sessions.filter(s => s.id !== meta.id);
+    if (this.currentSession?.id === meta.id) {
+      this.currentSession = null;
+    }
+    this.saveIndex();
+    fs.rmSync(this.sessionPath(meta.id), { force: true });
+    fs.rmSync(this.planPath(meta.id), { force: true });
+    fs.rmSync(this.usagePath(meta.id), { force: true });
+    fs.rmSync(this.parentPath(meta.id), { force: true });
+    fs.rmSync(this.archiveDir(meta.id), { recursive: true, force: true });
+    return session;
+  }
+
+  /** Sessions ordered by most recently updated first. */
+  listSessions(): SessionSummary[] {
+    return this.index.sessions
+      .map(meta => ({
+        id: meta.id,
+        title: meta.title ?? '(empty session)',
+        createdAt: meta.createdAt,
+        updatedAt: meta.updatedAt,
+        messageCount: meta.messageCount,
+        parentId: meta.parentId,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
   addMessage(message: Content): void {
     if (this.currentSession) {
       this.currentSession.messages.push(message);
-      this.save();
+      const filePath = this.sessionPath(this.currentSession.id);
+      fs.mkdirSync(this.sessionsDir, { recursive: true });
+      // Start on a fresh line if a previous append was cut short.
+      const prefix = endsWithNewline(filePath) ? '' : '\n';
+      fs.appendFileSync(filePath, prefix + JSON.stringify(message) + '\n');
+      this.touch(this.currentSession, false);
     }
   }
 
   setCurrentSessionMessages(messages: Content[]): void {
     if (this.currentSession) {
       this.currentSession.messages = messages;
-      this.save();
+      writeFileAtomic(this.sessionPath(this.currentSession.id), toJsonl(messages));
+      this.touch(this.currentSession);
+    }
+  }
+
+  /**
+   * Copy the current session's messages to `sessions/archive/<id>/` before
+   * they are rewritten, e.g. by compaction. Returns the archive file path.
+   */
+  archiveCurrentSession(): string | null {
+    if (!this.currentSession) {
+      return null;
+    }
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archivePath = path.join(this.archiveDir(this.currentSession.id), `${timestamp}.jsonl`);
+    writeFileAtomic(archivePath, toJsonl(this.currentSession.messages));
+    return archivePath;
+  }
+
+  /** The plan of the current session, or null when it has none. */
+  getPlan(): Plan | null {
+    if (!this.currentSession) {
+      return null;
+    }
+    const filePath = this.planPath(this.currentSession.id);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+      console.warn(`Invalid plan JSON at ${filePath}. Ignoring it.`);
+      return null;
+    }
+  }
+
+  /** Store the plan of the current session, replacing any earlier one. */
+  savePlan(plan: Plan): void {
+    if (this.currentSession) {
+      writeFileAtomic(this.planPath(this.currentSession.id), JSON.stringify(plan, null, 2));
+    }
+  }
+
+  /** Append the usage of one model request to the current session. */
+  addUsage(record: UsageRecord): void {
+    if (this.currentSession) {
+      const filePath = this.usagePath(this.currentSession.id);
+      fs.mkdirSync(this.sessionsDir, { recursive: true });
+      const prefix = endsWithNewline(filePath) ? '' : '\n';
+      fs.appendFileSync(filePath, prefix + JSON.stringify(record) + '\n');
+    }
+  }
+
+  /**
+   * Usage records of a session, oldest first. With `includeSubSessions` the
+   * records of its sub-sessions (recursively) are included.
+   */
+  getUsage(sessionId: string, includeSubSessions = false): UsageRecord[] {
+    const records = readJsonl<UsageRecord>(this.usagePath(sessionId));
+    if (includeSubSessions) {
+      for (const child of this.index.sessions.filter(s => s.parentId === sessionId)) {
+        records.push(...this.getUsage(child.id, true));
+      }
+    }
+    return records.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /** Usage records of every session in the project. */
+  getAllUsage(): UsageRecord[] {
+    return this.index.sessions.flatMap(meta => this.getUsage(meta.id));
+  }
+
+  /** The top-level session a (sub-)session belongs to. */
+  getRootSessionId(sessionId: string): string {
+    let meta = this.getMeta(sessionId);
+    const seen = new Set<string>();
+    while (meta?.parentId && !seen.has(meta.id)) {
+      seen.add(meta.id);
+      const parent = this.getMeta(meta.parentId);
+      if (!parent) {
+        break;
+      }
+      meta = parent;
+    }
+    return meta?.id ?? sessionId;
+  }
+
+  /** Update the session's metadata, writing the index now or leaving that to `flushIndex`. */
+  private touch(session: Session, save = true): void {
+    session.updatedAt = new Date().toISOString();
+    session.title ??= deriveSessionTitle(session.messages);
+
+    let meta = this.getMeta(session.id);
+    if (!meta) {
+      meta = {
+        id: session.id,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: 0,
+        parentId: session.parentId,
+      };
+      this.index.sessions.push(meta);
+    }
+    meta.updatedAt = session.updatedAt;
+    meta.title = session.title;
+    meta.messageCount = session.messages.length;
+    if (save) {
+      this.saveIndex();
+    } else {
+      this.indexDirty = true;
     }
   }
 
@@ -84,7 +511,7 @@ export class HistoryManager {
   }
 
   getSessionCount(): number {
-    return this.history.sessions.length;
+    return this.index.sessions.length;
   }
 
   clearCurrentSession(): void {
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GEMINI_DIR, MEMORY_FILE, MAX_MEMORY_CHARS } from '../types.js';
+import { writeFileAtomic } from './atomic.js';
+
+export type MemoryScope = 'project' | 'user';
+
+export interface MemoryFile {
+  scope: MemoryScope;
+  path: string;
+  content: string;
+}
+
+/**
+ * Instruction files appended to the system instruction: `.gemini/AGENT.md` in
+ * the project and, optionally, `~/.gemini/AGENT.md` for every project.
+ */
+export class MemoryManager {
+  private paths: Record<MemoryScope, string>;
+
+  constructor(projectDir: string, homeDir: string = os.homedir()) {
+    this.paths = {
+      project: path.join(projectDir, GEMINI_DIR, MEMORY_FILE),
+      user: path.join(homeDir, GEMINI_DIR, MEMORY_FILE),
+    };
+  }
+
+  getPath(scope: MemoryScope): string {
+    return this.paths[scope];
+  }
+
+  read(scope: MemoryScope): string | null {
+    const filePath = this.paths[scope];
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch (err) {
+      console.warn(`Could not read ${filePath}: ${String(err)}`);
+      return null;
+    }
+  }
+
+  write(scope: MemoryScope, content: string): void {
+    writeFileAtomic(this.paths[scope], content.endsWith('\n') ? content : `${content}\n`);
+  }
+
+  /** Add a line to the end of a memory file, creating it if needed. */
+  append(scope: MemoryScope, line: string): void {
+    const existing = this.read(scope) ?? '';
+    const separator = existing === '' || existing.endsWith('\n') ? '' : '\n';
+    this.write(scope, `${existing}${separator}${line}`);
+  }
+
+  /** Memory files that exist and are not empty, user-level first. */
+  load(): MemoryFile[] {
+    const files: MemoryFile[] = [];
+    for (const scope of ['user', 'project'] as const) {
+      const content = this.read(scope)?.trim();
+      if (content) {
+        files.push({ scope, path: this.paths[scope], content });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Memory formatted for the system instruction. Project instructions come
+   * last so they take precedence. Returns an empty string without memory.
+   */
+  getInstructions(): string {
+    const sections = this.load().map(file => {
+      const heading = file.scope === 'project' ? 'Project instructions' : 'User instructions';
+      const source = file.scope === 'project' ? `${GEMINI_DIR}/${MEMORY_FILE}` : `~/${GEMINI_DIR}/${MEMORY_FILE}`;
+      const content =
+        file.content.length > MAX_MEMORY_CHARS
+          ? `${file.content.slice(0, MAX_MEMORY_CHARS)}\n[${source} truncated]`
+          : file.content;
+      return `# ${heading} (${source})\n\n${content}`;
+    });
+    return sections.join('\n\n');
+  }
+}
@@ -1,6 +1,56 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Settings, Permission, PermissionMode, GEMINI_DIR, SETTINGS_FILE, DEFAULT_MODEL } from '../types.js';
+import {
+  Settings,
+  McpServerConfig,
+  SubagentSettings,
+  ModelPrice,
+  BudgetSettings,
+  RetrySettings,
+  Permission,
+  PermissionDecision,
+  PermissionSubject,
+  GEMINI_DIR,
+  SETTINGS_FILE,
+  DEFAULT_MODEL,
+} from '../types.js';
+import { matchesGlob } from '../utils/glob.js';
+import { listCommands, splitCommand } from '../utils/shell.js';
+import { writeFileAtomic } from './atomic.js';
+
+function matchesSubject(subject: PermissionSubject, pattern: string): boolean {
+  return matchesGlob(subject.value, pattern, { crossSeparators: subject.kind === 'command' });
+}
+
+/**
+ * A deny pattern matches a command line or any command it may run, including
+ * commands next to redirections and inside substitutions. Null when the
+ * command line cannot be taken apart.
+ */
+function isDenied(subject: PermissionSubject, patterns: string[]): boolean | null {
+  let values = [subject.value];
+  if (subject.kind === 'command') {
+    const commands = listCommands(subject.value);
+    if (!commands) {
+      return null;
+    }
+    values = [subject.value, ...commands];
+  }
+  return patterns.some(pattern => values.some(value => matchesSubject({ ...subject, value }, pattern)));
+}
+
+/**
+ * Allow patterns must match every simple command of a command line, so
+ * `mvn test*` does not allow `mvn test && rm -rf ~`. Command lines with
+ * substitution or redirection are never allowed by a pattern.
+ */
+function isAllowed(subject: PermissionSubject, patterns: string[]): boolean {
+  const values = subject.kind === 'command' ? splitCommand(subject.value) : [subject.value];
+  if (!values || values.length === 0) {
+    return false;
+  }
+  return values.every(value => patterns.some(pattern => matchesSubject({ ...subject, value }, pattern)));
+}
 
 export class SettingsManager {
   private settingsPath: string;
@@ -28,11 +78,7 @@ export class SettingsManager {
   }
 
   private save(): void {
-    const geminiDir = path.dirname(this.settingsPath);
-    if (!fs.existsSync(geminiDir)) {
-      fs.mkdirSync(geminiDir, { recursive: true });
-    }
-    fs.writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2));
+    writeFileAtomic(this.settingsPath, JSON.stringify(this.settings, null, 2));
   }
 
   getSettings(): Settings {
@@ -48,31 +94,103 @@ export class SettingsManager {
     this.save();
   }
 
+  getIgnorePatterns(): string[] {
+    return this.settings.ignore ?? [];
+  }
+
+  getMcpServers(): Record<string, McpServerConfig> {
+    return this.settings.mcpServers ?? {};
+  }
+
+  getSubagentSettings(): SubagentSettings {
+    return this.settings.subagents ?? {};
+  }
+
+  getPricing(): Record<string, ModelPrice> {
+    return this.settings.pricing ?? {};
+  }
+
+  getBudget(): BudgetSettings {
+    return this.settings.budget ?? {};
+  }
+
+  getRetrySettings(): RetrySettings {
+    return this.settings.retry ?? {};
+  }
+
   getPermission(tool: string): Permission | undefined {
     return this.settings.permissions[tool as keyof typeof this.settings.permissions];
   }
 
+  /** The deny patterns of a permission key, e.g. to hide denied files from search results. */
+  getDenyPatterns(tool: string): string[] {
+    return this.getPermission(tool)?.denied ?? [];
+  }
+
   setPermission(tool: string, permission: Permission): void {
     this.settings.permissions[tool as keyof typeof this.settings.permissions] = permission;
     this.save();
   }
 
   isAllowed(tool: string): boolean {
+    return this.evaluate(tool) === 'allow';
+  }
+
+  /**
+   * Decide whether a tool call may run. Deny patterns and deny mode win;
+   * when allow patterns are configured only matching calls are allowed and
+   * everything else is asked about. Commands are matched per simple command
+   * (see isAllowed), and a command line that cannot be checked against deny
+   * patterns is asked about. Without a subject only the mode counts.
+   */
+  evaluate(tool: string, subject?: PermissionSubject): PermissionDecision {
     const perm = this.getPermission(tool);
-    return perm?.mode === 'allow';
+    if (!perm) {
+      return 'ask';
+    }
+
+    if (subject && perm.denied && perm.denied.length > 0) {
+      const denied = isDenied(subject, perm.denied);
+      if (denied === null) {
+        return perm.mode === 'deny' ? 'deny' : 'ask';
+      }
+      if (denied) {
+        return 'deny';
+      }
+    }
+    if (perm.mode === 'deny') {
+      return 'deny';
+    }
+    if (subject && perm.allowed && perm.allowed.length > 0) {
+      return isAllowed(subject, perm.allowed) ? 'allow' : 'ask';
+    }
+    return perm.mode === 'allow' ? 'allow' : 'ask';
   }
 
   grantPermission(tool: string, alwaysAllow: boolean): void {
     if (alwaysAllow) {
-      this.setPermission(tool, { mode: 'allow' });
+      this.allowTool(tool);
+    }
+  }
+
+  /** Allow every call of a tool, keeping any deny patterns. */
+  allowTool(tool: string): void {
+    const perm = this.getPermission(tool);
+    this.setPermission(tool, { mode: 'allow', denied: perm?.denied });
+  }
+
+  /** Allow calls of a tool matching a pattern, keeping the rest of its rules. */
+  allowPattern(tool: string, pattern: string): void {
+    const perm = this.getPermission(tool) ?? { mode: 'ask' };
+    const allowed = perm.allowed ?? [];
+    if (!allowed.includes(pattern)) {
+      this.setPermission(tool, { ...perm, allowed: [...allowed, pattern] });
     }
   }
 
+  /** Reset every tool to ask mode. Other settings, such as budget limits, are kept. */
   reset(): void {
-    this.settings = {
-      model: DEFAULT_MODEL,
-      permissions: {},
-    };
+    this.settings.permissions = {};
     this.save();
   }
 }
@@ -1,12 +1,26 @@
-import { Content as GeminiContent } from '@google/genai';
+import { Content as GeminiContent, Part } from '@google/genai';
 
 export type Content = GeminiContent;
 
-export type PermissionMode = 'ask' | 'allow';
+export type PermissionMode = 'ask' | 'allow' | 'deny';
 
 export interface Permission {
   mode: PermissionMode;
+  /** Patterns that are allowed without asking. When set, other calls are asked about. */
   allowed?: string[];
+  /** Patterns that are always denied, regardless of mode. */
+  denied?: string[];
+}
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * The part of a tool call that permission patterns are matched against:
+ * the command line for commands, the project-relative path for file tools.
+ */
+export interface PermissionSubject {
+  kind: 'command' | 'path';
+  value: string;
 }
 
 export interface Settings {
@@ -16,19 +30,174 @@ export interface Settings {
     write_file?: Permission;
     list_dir?: Permission;
     run_command?: Permission;
+    /** Permission keys of project tools. */
+    [key: string]: Permission | undefined;
   };
+  /** Extra ignore patterns (.gitignore syntax) for list_dir, grep_files and glob_files. */
+  ignore?: string[];
+  /** MCP servers whose tools are offered to the model, by server name. */
+  mcpServers?: Record<string, McpServerConfig>;
+  subagents?: SubagentSettings;
+  /** Prices per model (or model name prefix), replacing the built-in ones. */
+  pricing?: Record<string, ModelPrice>;
+  budget?: BudgetSettings;
+  retry?: RetrySettings;
+}
+
+/** How failed model requests are retried. */
+export interface RetrySettings {
+  /** Retries after the first attempt. Defaults to 5. */
+  maxRetries?: number;
+  /** Delay before the first retry. Defaults to 2000. */
+  initialDelayMs?: number;
+  /** Longest backoff delay; a longer delay asked for by the server is still honored. Defaults to 60000. */
+  maxDelayMs?: number;
+  /** Factor the delay grows by with every retry. Defaults to 2. */
+  multiplier?: number;
+  /** Share of the delay that is randomized, from 0 (none) to 1. Defaults to 0.3. */
+  jitter?: number;
+  /** Time limit per attempt; a streamed response gets it per chunk. Defaults to API_TIMEOUT_MS. */
+  timeoutMs?: number;
+}
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  /** Output tokens, including thinking. */
+  output: number;
+  /** Input tokens served from the context cache. Defaults to `input`. */
+  cachedInput?: number;
+}
+
+/** Limits that stop the agentic loop before the next model request once reached. */
+export interface BudgetSettings {
+  /** Tokens per session, including its sub-agents. */
+  sessionTokens?: number;
+  /** Estimated US dollars per session, including its sub-agents. */
+  sessionCost?: number;
+  /** Estimated US dollars per day across all sessions of the project. */
+  dailyCost?: number;
+}
+
+export type UsagePurpose = 'turn' | 'compaction';
+
+/** Token usage of one model request, as reported in its `usageMetadata`. */
+export interface UsageRecord {
+  timestamp: string;
+  model: string;
+  purpose: UsagePurpose;
+  /** Hop of the agentic loop, for `turn` requests. */
+  hop?: number;
+  /** All input tokens, including cached ones. */
+  promptTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+/** Limits for sub-agents started with delegate_task. */
+export interface SubagentSettings {
+  /** Tools sub-agents may use besides the read-only ones, e.g. "edit_file". */
+  tools?: string[];
+  /** Hop budget when the model does not ask for one. Defaults to 15. */
+  maxHops?: number;
+}
+
+/** An MCP server started as a child process and spoken to over stdio. */
+export interface McpServerConfig {
+  command: string;
+  args?: string[];
+  /** Added to the environment of the CLI. */
+  env?: Record<string, string>;
+  /** Working directory, relative to the project. Defaults to the project directory. */
+  cwd?: string;
+  /** Request timeout in seconds. Defaults to 60. */
+  timeout?: number;
+  /** Tools, by the server's name for them, that only read and may run in plan mode and sub-agents. */
+  readOnlyTools?: string[];
+  disabled?: boolean;
 }
 
 export interface Session {
   id: string;
   createdAt: string;
+  updatedAt?: string;
+  /** Derived from the first user message. */
+  title?: string;
+  /** The session that delegated this one to a sub-agent. */
+  parentId?: string;
   messages: Content[];
 }
 
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  parentId?: string;
+}
+
+export interface SessionMeta {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  title?: string;
+  messageCount: number;
+  parentId?: string;
+}
+
+export interface SessionIndex {
+  sessions: SessionMeta[];
+}
+
+/** Legacy single-file format, migrated to SESSIONS_DIR on load. */
 export interface History {
   sessions: Session[];
 }
 
+export interface FileSnapshot {
+  /** Project-relative path. */
+  path: string;
+  existed: boolean;
+  /** Base64 file content before the change, when the file existed. */
+  content?: string;
+}
+
+export interface Checkpoint {
+  id: string;
+  sessionId: string;
+  /** Id of the turn that made the changes. */
+  turn: string;
+  /** The user message that started the turn, shortened. */
+  prompt: string;
+  createdAt: string;
+  files: FileSnapshot[];
+}
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped';
+
+export interface PlanStep {
+  title: string;
+  details?: string;
+  status: PlanStepStatus;
+  /** What the agent reported when it last updated the step. */
+  note?: string;
+}
+
+/** `proposed` plans wait for the user; `approved` plans are being executed. */
+export type PlanStatus = 'proposed' | 'approved' | 'rejected' | 'completed';
+
+/** A plan made in plan mode, stored with its session. */
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  status: PlanStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ToolResult {
   output?: string;
   error?: string;
@@ -43,13 +212,81 @@ export interface PermissionRequest {
 export interface PermissionResponse {
   granted: boolean;
   alwaysAllow: boolean;
+  /** With alwaysAllow, only allow calls matching this pattern instead of the whole tool. */
+  pattern?: string;
+  /** Why the call was denied. Sent back to the model so it can revise. */
+  reason?: string;
+  /**
+   * Replaces the "Permission denied by user" error sent to the model, for
+   * denials nobody was asked about, e.g. by a non-interactive policy.
+   */
+  denial?: string;
+  /** `policy` when a non-interactive policy answered instead of a person. Defaults to `user`. */
+  source?: 'user' | 'policy';
+}
+
+/**
+ * Who decided a tool call's permission: `none` for calls that need none (plan
+ * tools, unknown tools), `settings` for a saved rule, `user` for a prompt,
+ * `policy` for a non-interactive policy such as `run --permissions`,
+ * `plan_mode` for writes blocked by plan mode, `interrupted` for calls left
+ * after the turn was interrupted.
+ */
+export type PermissionSource = 'none' | 'settings' | 'user' | 'policy' | 'plan_mode' | 'interrupted';
+
+/** How a tool call's permission was decided. */
+export interface PermissionRecord {
+  granted: boolean;
+  source: PermissionSource;
+}
+
+/**
+ * A function response part as stored in session history, with the permission
+ * decision for export. The record is removed before history is sent to the model.
+ */
+export type RecordedPart = Part & { permission?: PermissionRecord };
+
+/** The content a file-modifying tool call would produce. `before` is null for new files. */
+export interface FileChangePreview {
+  path: string;
+  before: string | null;
+  after: string;
 }
 
 export const DEFAULT_MODEL = 'gemini-3-flash-preview';
 export const MAX_HOPS = 25;
+export const SUBAGENT_MAX_HOPS = 15;
+/** Longest sub-agent report returned to the parent. */
+export const MAX_SUBAGENT_REPORT_CHARS = 8000;
 export const COMMAND_TIMEOUT_MS = 60000;
+export const MAX_COMMAND_TIMEOUT_MS = 1800000;
+export const MAX_COMMAND_OUTPUT_CHARS = 30000;
+/** Longest tool result shown in Markdown and HTML exports. */
+export const MAX_EXPORT_RESULT_CHARS = 10000;
 export const API_TIMEOUT_MS = 600000;
-export const MAX_CONTEXT_CHARS = 100000;
+/** Time limit of a token count request, after which the context size is estimated instead. */
+export const COUNT_TOKENS_TIMEOUT_MS = 30000;
+/** Error of tool calls cut short or skipped because the user interrupted the turn. */
+export const INTERRUPTED_MESSAGE = 'Interrupted by user';
+/** Share of the model's context window after which history is compacted. */
+export const COMPACTION_THRESHOLD = 0.8;
+/** Most recent turns kept verbatim when history is compacted. */
+export const COMPACTION_KEEP_TURNS = 2;
+/** Most recent tool steps kept when compacting within a single long turn. */
+export const COMPACTION_KEEP_STEPS = 6;
 export const GEMINI_DIR = '.gemini';
 export const SETTINGS_FILE = 'settings.json';
 export const HISTORY_FILE = 'history.json';
+export const SESSIONS_DIR = 'sessions';
+export const SESSION_INDEX_FILE = 'index.json';
+export const PLAN_FILE_SUFFIX = '.plan.json';
+export const USAGE_FILE_SUFFIX = '.usage.jsonl';
+/** Holds the parent id of a sub-session, so a rebuilt index keeps the link. */
+export const PARENT_FILE_SUFFIX = '.parent';
+export const CHECKPOINTS_DIR = 'checkpoints';
+export const ARCHIVE_DIR = 'archive';
+export const MEMORY_FILE = 'AGENT.md';
+export const TOOLS_DIR = 'tools';
+export const EXPORTS_DIR = 'exports';
+/** Longest memory file, in characters, included in the system instruction. */
+export const MAX_MEMORY_CHARS = 20000;
@@ -0,0 +1,166 @@
+/** Above this many cells the LCS table is skipped and the changed block is shown as a whole. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Appended to a last line that has no newline, so it differs from the same
+ * line with one. A split line cannot contain a newline otherwise.
+ */
+const NO_NEWLINE = '\n';
+
+type DiffOp = { type: 'equal' | 'remove' | 'add'; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    middle.push(...a.map(line => ({ type: 'remove' as const, line })));
+    middle.push(...b.map(line => ({ type: 'add' as const, line })));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= a.length; i++) {
+      lcs.push(new Uint32Array(b.length + 1));
+    }
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: 'equal', line: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        middle.push({ type: 'remove', line: a[i] });
+        i++;
+      } else {
+        middle.push({ type: 'add', line: b[j] });
+        j++;
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line })),
+  ];
+}
+
+export interface UnifiedDiffOptions {
+  /** Lines of unchanged context around each change. Defaults to 3. */
+  context?: number;
+}
+
+/**
+ * Create a unified diff between two versions of a file. Pass `null` as the old
+ * content for a new file. Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string | null,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText ?? ''), splitLines(newText));
+  if (!ops.some(op => op.type !== 'equal')) {
+    return '';
+  }
+
+  const output = [
+    oldText === null ? '--- /dev/null' : `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+  ];
+
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change and open a hunk with leading context.
+    while (index < ops.length && ops[index].type === 'equal') {
+      index++;
+    }
+    if (index >= ops.length) {
+      break;
+    }
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend the hunk while changes are within 2 * context lines of each other.
+    while (end < ops.length) {
+      if (ops[end].type !== 'equal') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < ops.length && ops[next].type === 'equal') {
+        next++;
+      }
+      if (next < ops.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+    }
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (ops[i].type !== 'add') {
+        oldStart++;
+      }
+      if (ops[i].type !== 'remove') {
+        newStart++;
+      }
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.type !== 'add').length;
+    const newCount = hunk.filter(op => op.type !== 'remove').length;
+
+    // Empty ranges point at the line before, as in `diff -u`.
+    const oldRange = `${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount}`;
+    const newRange = `${newCount === 0 ? newStart - 1 : newStart},${newCount}`;
+    output.push(`@@ -${oldRange} +${newRange} @@`);
+    for (const op of hunk) {
+      const marker = op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' ';
+      if (op.line.endsWith(NO_NEWLINE)) {
+        output.push(marker + op.line.slice(0, -NO_NEWLINE.length), '\\ No newline at end of file');
+      } else {
+        output.push(marker + op.line);
+      }
+    }
+    index = end;
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,59 @@
+export interface GlobOptions {
+  /** Let `*` and `?` match `/` as well. Used for command patterns. */
+  crossSeparators?: boolean;
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ *
+ * Supports `**` (any number of path segments), `*`, `?` and `{a,b}` alternation.
+ * A backslash makes the next character literal.
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const star = options.crossSeparators ? '.*' : '[^/]*';
+  const single = options.crossSeparators ? '.' : '[^/]';
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^$()|[\]\\{}]/g, '\\$&');
+    } else if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += star;
+      }
+    } else if (char === '?') {
+      source += single;
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, pattern: string, options: GlobOptions = {}): boolean {
+  return globToRegExp(pattern, options).test(value);
+}
+
+/** Escape glob syntax so the pattern only matches `value` itself. */
+export function escapeGlob(value: string): string {
+  return value.replace(/[*?{},\\]/g, '\\$&');
+}
@@ -0,0 +1,89 @@
+/** Operators between simple commands: `&&`, `||`, `;`, `|`, `&` and newlines. */
+const COMMAND_SEPARATORS = /&&|\|\||[;|&\n]/;
+
+/** Command substitution and redirection, which splitting cannot isolate. */
+const UNSPLITTABLE_SYNTAX = /`|\$\(|[<>]/;
+
+/**
+ * Split a command line into the simple commands it runs, or return null when
+ * it uses command substitution or redirection. Quotes are not parsed, so an
+ * operator inside quotes splits too; callers should only use the parts to be
+ * stricter, never to allow more.
+ */
+export function splitCommand(command: string): string[] | null {
+  if (UNSPLITTABLE_SYNTAX.test(command)) {
+    return null;
+  }
+  return command
+    .split(COMMAND_SEPARATORS)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
+
+/** True for a single command without control operators, substitution or redirection. */
+export function isSimpleCommand(command: string): boolean {
+  return splitCommand(command)?.length === 1;
+}
+
+/** A redirection operator with its target, e.g. `> out.txt`, `2>>log` or `<in`. */
+const REDIRECTION = /\d*(?:&>>?|>>?|<<?<?)&?\s*[^\s;&|<>]*/g;
+
+/** Index of the `)` closing the `(` at `open`, or -1 when there is none. */
+function closingParen(command: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < command.length; i++) {
+    if (command[i] === '(') {
+      depth++;
+    } else if (command[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Every command a command line may run, for matching deny patterns: the
+ * parts between control operators, with and without their redirections, and
+ * recursively the commands inside `` `...` ``, `$(...)`, `<(...)` and
+ * `>(...)`. Returns null when a substitution is not closed. Quotes are not
+ * parsed, so this may list more commands than actually run, never fewer.
+ */
+export function listCommands(command: string): string[] | null {
+  const substitutions: string[] = [];
+  let outer = '';
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === '`') {
+      const end = command.indexOf('`', i + 1);
+      if (end === -1) {
+        return null;
+      }
+      substitutions.push(command.slice(i + 1, end));
+      outer += ' ';
+      i = end;
+    } else if ((char === '$' || char === '<' || char === '>') && command[i + 1] === '(') {
+      const end = closingParen(command, i + 1);
+      if (end === -1) {
+        return null;
+      }
+      substitutions.push(command.slice(i + 2, end));
+      outer += ' ';
+      i = end;
+    } else {
+      outer += char;
+    }
+  }
+
+  const commands = outer.split(COMMAND_SEPARATORS).flatMap(part => [
+    part.trim(),
+    part.replace(REDIRECTION, ' ').replace(/\s+/g, ' ').trim(),
+  ]);
+  for (const substitution of substitutions) {
+    const inner = listCommands(substitution);
+    if (!inner) {
+      return null;
+    }
+    commands.push(...inner);
+  }
+  return [...new Set(commands.filter(part => part.length > 0))];
+}
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './glob.js';
+import { CHECKPOINTS_DIR, EXPORTS_DIR, GEMINI_DIR, HISTORY_FILE, SESSIONS_DIR } from '../types.js';
+
+/**
+ * Paths that are never worth walking into, with or without a .gitignore:
+ * `.git` and the agent's own state under `.gemini`, whose transcripts would
+ * otherwise turn up in every search and grow with each one. `.gemini/AGENT.md`
+ * and `.gemini/tools/` stay visible.
+ */
+const ALWAYS_IGNORED = [
+  '.git',
+  `/${GEMINI_DIR}/${SESSIONS_DIR}/`,
+  `/${GEMINI_DIR}/${CHECKPOINTS_DIR}/`,
+  `/${GEMINI_DIR}/${EXPORTS_DIR}/`,
+  `/${GEMINI_DIR}/${HISTORY_FILE}*`,
+];
+
+interface IgnoreRule {
+  /** Directory of the .gitignore the rule came from, relative to the walk root ('' for root). */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Parse .gitignore-style lines. Patterns without a slash match a name at any
+ * depth; patterns with one are anchored to `base`.
+ */
+export function parseIgnorePatterns(lines: string[], base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of lines) {
+    let line = raw.replace(/\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    let negate = false;
+    if (line.startsWith('!')) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+    let dirOnly = false;
+    if (line.endsWith('/')) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) {
+      continue;
+    }
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    const pattern = anchored ? line : `**/${line}`;
+    rules.push({ base, regex: globToRegExp(pattern), negate, dirOnly });
+  }
+  return rules;
+}
+
+function isIgnored(rules: IgnoreRule[], relPath: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) {
+      continue;
+    }
+    let candidate = relPath;
+    if (rule.base) {
+      if (!relPath.startsWith(rule.base + '/')) {
+        continue;
+      }
+      candidate = relPath.slice(rule.base.length + 1);
+    }
+    if (rule.regex.test(candidate)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+function readGitignore(dir: string, base: string): IgnoreRule[] {
+  const gitignorePath = path.join(dir, '.gitignore');
+  if (!fs.existsSync(gitignorePath)) {
+    return [];
+  }
+  try {
+    return parseIgnorePatterns(fs.readFileSync(gitignorePath, 'utf-8').split('\n'), base);
+  } catch (err) {
+    return [];
+  }
+}
+
+export interface WalkEntry {
+  /** Path relative to the walk root, with forward slashes. */
+  relPath: string;
+  absPath: string;
+  name: string;
+  isDir: boolean;
+  /** 1 for direct children of the start directory. */
+  depth: number;
+}
+
+export interface WalkOptions {
+  /** Directory to start from, relative to the root. Defaults to the root. */
+  start?: string;
+  /** Extra ignore patterns in .gitignore syntax, relative to the root. */
+  ignore?: string[];
+  /** Honour .gitignore files. Defaults to true. */
+  gitignore?: boolean;
+  /** Do not descend below this depth. */
+  maxDepth?: number;
+}
+
+/**
+ * Walk a directory tree depth-first in name order, skipping ALWAYS_IGNORED, entries
+ * matched by .gitignore files (including nested ones and those of parent
+ * directories between the root and `start`) and extra ignore patterns.
+ */
+export function* walk(root: string, options: WalkOptions = {}): Generator<WalkEntry> {
+  const useGitignore = options.gitignore ?? true;
+  // Checked on their own, so `!pattern` rules cannot re-include them.
+  const alwaysIgnored = parseIgnorePatterns(ALWAYS_IGNORED);
+  const rules: IgnoreRule[] = parseIgnorePatterns(options.ignore ?? []);
+
+  const start = (options.start ?? '').split(path.sep).join('/').replace(/^\.(?:\/|$)|\/$/g, '');
+  if (useGitignore) {
+    // .gitignore files above the start directory still apply.
+    let base = '';
+    rules.push(...readGitignore(root, base));
+    for (const segment of start ? start.split('/') : []) {
+      base = base ? `${base}/${segment}` : segment;
+      rules.push(...readGitignore(path.join(root, base), base));
+    }
+  }
+
+  function* visit(relDir: string, depth: number, inherited: IgnoreRule[]): Generator<WalkEntry> {
+    const absDir = path.join(root, relDir);
+    const dirRules = useGitignore && relDir !== start ? [...inherited, ...readGitignore(absDir, relDir)] : inherited;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(absDir, { withFileTypes: true });
+    } catch (err) {
+      return;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      const isDir = entry.isDirectory();
+      if (isIgnored(alwaysIgnored, relPath, isDir) || isIgnored(dirRules, relPath, isDir)) {
+        continue;
+      }
+      yield { relPath, absPath: path.join(absDir, entry.name), name: entry.name, isDir, depth };
+      if (isDir && (options.maxDepth === undefined || depth < options.maxDepth)) {
+        yield* visit(relPath, depth + 1, dirRules);
+      }
+    }
+  }
+
+  yield* visit(start, 1, rules);
+}
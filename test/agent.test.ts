@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, test } from 'node:test';
+import { Content } from '@google/genai';
+import { Agent } from '../src/agent/index.js';
+import { GenerateContentParams, GenerateContentResponse, ModelProvider, ScriptedProvider } from '../src/agent/provider.js';
+import { HistoryManager } from '../src/storage/history.js';
+import { SettingsManager } from '../src/storage/settings.js';
+import { RecordedPart } from '../src/types.js';
+
+const projectDirs: string[] = [];
+
+after(() => {
+  for (const dir of projectDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createAgent(provider: ModelProvider): Agent {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-test-'));
+  projectDirs.push(projectDir);
+  const history = new HistoryManager(projectDir);
+  history.createSession();
+  return new Agent({
+    projectDir,
+    settings: new SettingsManager(projectDir),
+    history,
+    provider,
+    onPermissionPrompt: async () => ({ granted: false, alwaysAllow: false }),
+  });
+}
+
+test('interrupting a streamed response aborts the model request', async () => {
+  let requestSignal: AbortSignal | undefined;
+  const provider: ModelProvider = {
+    name: 'stalling',
+    generateContent: () => Promise.reject(new Error('not used')),
+    async generateContentStream(params: GenerateContentParams) {
+      requestSignal = params.config?.abortSignal;
+      return (async function* (): AsyncGenerator<GenerateContentResponse> {
+        yield { candidates: [{ content: { role: 'model', parts: [{ text: 'Working' }] } }] };
+        await new Promise(() => {});
+      })();
+    },
+  };
+  const agent = createAgent(provider);
+  const controller = new AbortController();
+  let reason: string | undefined;
+  for await (const event of agent.streamMessage('hello', controller.signal)) {
+    if (event.type === 'text') {
+      controller.abort();
+    }
+    if (event.type === 'done') {
+      reason = event.reason;
+    }
+  }
+  assert.equal(reason, 'interrupted');
+  assert.equal(requestSignal?.aborted, true);
+});
+
+test('permission decisions are stored with the function response but not sent to the model', async () => {
+  const provider = new ScriptedProvider([
+    { functionCalls: [{ name: 'read_file', args: { path: 'README.md' } }] },
+    { text: 'Done.' },
+  ]);
+  const agent = createAgent(provider);
+  await agent.processMessage('Read the README');
+
+  const stored: RecordedPart | undefined = agent
+    .getHistory()
+    .flatMap(msg => msg.parts ?? [])
+    .find(part => part.functionResponse);
+  assert.deepEqual(stored?.permission, { granted: false, source: 'user' });
+
+  const sent = provider.getRequests()[1].contents as Content[];
+  const sentPart = sent.flatMap(msg => msg.parts ?? []).find(part => part.functionResponse);
+  assert.deepEqual(sentPart, { functionResponse: { name: 'read_file', response: { error: 'Permission denied by user' } } });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, TestContext } from 'node:test';
+import { CheckpointManager } from '../src/storage/checkpoints.js';
+
+function tempProject(t: TestContext): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoints-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  return projectDir;
+}
+
+test('undo reverts the last turn, keeping the content from before it started', t => {
+  const projectDir = tempProject(t);
+  const file = path.join(projectDir, 'a.txt');
+  fs.writeFileSync(file, 'v1');
+  const checkpoints = new CheckpointManager(projectDir);
+
+  checkpoints.snapshot('s', 'turn-1', 'first', file);
+  fs.writeFileSync(file, 'v2');
+  checkpoints.snapshot('s', 'turn-2', 'second', file);
+  fs.writeFileSync(file, 'v3');
+  // A second snapshot in the same turn keeps the first one.
+  checkpoints.snapshot('s', 'turn-2', 'second', file);
+  fs.writeFileSync(file, 'v4');
+
+  assert.deepEqual(checkpoints.list('s').map(c => c.turn), ['turn-1', 'turn-2']);
+  assert.equal(checkpoints.undoLast('s')?.turn, 'turn-2');
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'v2');
+  assert.equal(checkpoints.list('s').length, 1);
+});
+
+test('restore reverts a checkpoint and every later one, deleting created files', t => {
+  const projectDir = tempProject(t);
+  const existing = path.join(projectDir, 'a.txt');
+  const created = path.join(projectDir, 'new', 'b.txt');
+  fs.writeFileSync(existing, 'original');
+  const checkpoints = new CheckpointManager(projectDir);
+
+  checkpoints.snapshot('s', 'turn-1', 'edit', existing);
+  fs.writeFileSync(existing, 'edited');
+  checkpoints.snapshot('s', 'turn-2', 'create', created);
+  fs.mkdirSync(path.dirname(created));
+  fs.writeFileSync(created, 'new');
+
+  const [first] = checkpoints.list('s');
+  const reverted = checkpoints.restore('s', first.id.slice(0, 8));
+  assert.deepEqual(reverted.map(c => c.turn), ['turn-2', 'turn-1']);
+  assert.equal(fs.readFileSync(existing, 'utf-8'), 'original');
+  assert.equal(fs.existsSync(created), false);
+  assert.deepEqual(checkpoints.list('s'), []);
+  assert.throws(() => checkpoints.restore('s', 'missing'), /Checkpoint not found/);
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Content } from '@google/genai';
+import {
+  SUMMARY_ACK,
+  SUMMARY_MARKER,
+  applyCompaction,
+  isSummary,
+  planCompaction,
+  transcriptText,
+} from '../src/agent/compaction.js';
+
+const prompt = (text: string): Content => ({ role: 'user', parts: [{ text }] });
+const reply = (text: string): Content => ({ role: 'model', parts: [{ text }] });
+const call = (id: string): Content => ({ role: 'model', parts: [{ functionCall: { name: 'read_file', args: { path: id } } }] });
+const result = (id: string): Content => ({
+  role: 'user',
+  parts: [{ functionResponse: { name: 'read_file', response: { result: id } } }],
+});
+
+test('turns before the kept ones are summarized and replaced by a summary and acknowledgement', () => {
+  const contents = [prompt('p1'), call('a'), result('a'), reply('r1'), prompt('p2'), reply('r2'), prompt('p3'), reply('r3')];
+
+  const plan = planCompaction(contents, { keepTurns: 2, keepSteps: 2 });
+
+  assert.ok(plan);
+  assert.equal(plan.withinTurn, false);
+  assert.deepEqual(plan.span, contents.slice(0, 4));
+  assert.deepEqual(plan.tail, contents.slice(4));
+
+  const compacted = applyCompaction(plan, 'Read a.');
+  assert.deepEqual(compacted, [prompt(`${SUMMARY_MARKER}\nRead a.`), reply(SUMMARY_ACK), ...contents.slice(4)]);
+  assert.ok(isSummary(compacted[0]));
+});
+
+test('a lone earlier summary is not summarized again', () => {
+  const contents = [prompt(`${SUMMARY_MARKER}\nEarlier.`), reply(SUMMARY_ACK), prompt('p2'), reply('r2')];
+
+  assert.equal(planCompaction(contents, { keepTurns: 1, keepSteps: 2 }), null);
+});
+
+test('older tool steps of a single large turn are summarized, keeping calls with their responses', () => {
+  const parallel: Content = {
+    role: 'user',
+    parts: [{ functionResponse: { name: 'read_file', response: { result: 'd2' } } }],
+  };
+  const contents = [prompt('p1'), call('a'), result('a'), call('b'), result('b'), call('c'), result('c'), call('d'), result('d'), parallel];
+
+  const plan = planCompaction(contents, { keepTurns: 1, keepSteps: 2 });
+
+  assert.ok(plan);
+  assert.equal(plan.withinTurn, true);
+  assert.deepEqual(plan.head, [prompt('p1')]);
+  assert.deepEqual(plan.span, contents.slice(1, 5));
+  assert.deepEqual(plan.tail, contents.slice(5));
+
+  const compacted = applyCompaction(plan, 'Read a and b.');
+  assert.deepEqual(compacted[0].parts, [{ text: 'p1' }, { text: `${SUMMARY_MARKER}\nRead a and b.` }]);
+  assert.deepEqual(compacted.slice(1), contents.slice(5));
+});
+
+test('a second compaction within a turn folds the earlier summary into the new one', () => {
+  const first = applyCompaction(
+    planCompaction([prompt('p1'), call('a'), result('a'), call('b'), result('b')], { keepTurns: 1, keepSteps: 1 })!,
+    'Read a.'
+  );
+  const contents = [...first, call('c'), result('c')];
+
+  const plan = planCompaction(contents, { keepTurns: 1, keepSteps: 1 });
+
+  assert.ok(plan);
+  assert.deepEqual(plan.span[0], { role: 'user', parts: [{ text: `${SUMMARY_MARKER}\nRead a.` }] });
+  assert.deepEqual(plan.span.slice(1), [call('b'), result('b')]);
+
+  const compacted = applyCompaction(plan, 'Read a and b.');
+  assert.deepEqual(compacted[0].parts, [{ text: 'p1' }, { text: `${SUMMARY_MARKER}\nRead a and b.` }]);
+  assert.deepEqual(compacted.slice(1), [call('c'), result('c')]);
+});
+
+test('nothing is planned while the history fits the kept turns and steps', () => {
+  assert.equal(planCompaction([prompt('p1'), call('a'), result('a'), reply('r1')], { keepTurns: 1, keepSteps: 2 }), null);
+  assert.equal(planCompaction([], { keepTurns: 1, keepSteps: 1 }), null);
+});
+
+test('transcripts skip thoughts and clip long tool results', () => {
+  const contents: Content[] = [
+    prompt('Read it'),
+    { role: 'model', parts: [{ text: 'thinking', thought: true }, { functionCall: { name: 'read_file', args: { path: 'a' } } }] },
+    result('x'.repeat(50)),
+  ];
+
+  assert.equal(
+    transcriptText(contents, 20),
+    ['User: Read it', 'Tool call read_file: {"path":"a"}', `Tool result read_file: {"result":"xxxxxxxxx... [truncated]`].join('\n')
+  );
+});
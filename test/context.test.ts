@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Content } from '@google/genai';
+import {
+  ContextTracker,
+  countTokens,
+  estimateTokens,
+  getCompactionThreshold,
+  getContextWindow,
+  splitContentsByCategory,
+} from '../src/agent/context.js';
+import { ModelProvider } from '../src/agent/provider.js';
+
+const history: Content[] = [
+  { role: 'user', parts: [{ text: 'Read the README' }] },
+  { role: 'model', parts: [{ text: 'Reading.' }, { functionCall: { name: 'read_file', args: { path: 'README.md' } } }] },
+  { role: 'user', parts: [{ functionResponse: { name: 'read_file', response: { result: '# Title' } } }] },
+];
+
+function provider(countTokens?: ModelProvider['countTokens']): ModelProvider {
+  return {
+    name: 'test',
+    generateContent: async () => {
+      throw new Error('not used');
+    },
+    countTokens,
+  };
+}
+
+test('context windows match versioned model names by their longest prefix', () => {
+  assert.equal(getContextWindow('models/gemini-1.5-pro-002'), 2_097_152);
+  assert.equal(getContextWindow('gemini-2.5-flash-lite-preview'), 1_048_576);
+  assert.equal(getContextWindow('unknown-model'), 128_000);
+  assert.equal(getCompactionThreshold('unknown-model'), 102_400);
+});
+
+test('estimates count four characters per token, rounded up', () => {
+  assert.equal(estimateTokens([{ role: 'user', parts: [{ text: 'abcde' }] }]), 2);
+  assert.equal(estimateTokens([]), 0);
+});
+
+test('token counts come from the provider when it has them', async () => {
+  const count = await countTokens(provider(async () => ({ totalTokens: 42 })), 'gemini-2.5-pro', history);
+  assert.deepEqual(count, { tokens: 42, estimated: false });
+});
+
+test('token counts fall back to an estimate when the provider fails', async () => {
+  const failing = provider(async () => {
+    throw new Error('unavailable');
+  });
+  assert.deepEqual(await countTokens(failing, 'gemini-2.5-pro', history), {
+    tokens: estimateTokens(history),
+    estimated: true,
+  });
+  assert.deepEqual(await countTokens(provider(), 'gemini-2.5-pro', history), {
+    tokens: estimateTokens(history),
+    estimated: true,
+  });
+});
+
+test('an aborted token count rejects instead of estimating', async () => {
+  const controller = new AbortController();
+  controller.abort(new Error('interrupted'));
+  const pending = countTokens(
+    provider(params => new Promise((_, reject) => params.config?.abortSignal?.addEventListener('abort', () => reject(new Error('aborted'))))),
+    'gemini-2.5-pro',
+    history,
+    controller.signal
+  );
+  await assert.rejects(pending);
+});
+
+test('history splits into user, model, tool call and tool result parts', () => {
+  const split = splitContentsByCategory(history);
+  assert.equal(split.user.length, 1);
+  assert.deepEqual(split.model, [{ role: 'model', parts: [{ text: 'Reading.' }] }]);
+  assert.equal(split.toolCalls[0].parts?.[0].functionCall?.name, 'read_file');
+  assert.equal(split.toolResults[0].role, 'user');
+});
+
+test('the tracker sums usage per turn and session and estimates from the last response', () => {
+  const tracker = new ContextTracker();
+  tracker.startTurn();
+  tracker.record('s1', 2, { promptTokenCount: 100, candidatesTokenCount: 20, thoughtsTokenCount: 5, totalTokenCount: 125 });
+  tracker.record('s1', 4, { promptTokenCount: 150, candidatesTokenCount: 10 });
+
+  assert.deepEqual(tracker.getTurnUsage(), { promptTokens: 250, outputTokens: 35, totalTokens: 285, requests: 2 });
+  assert.deepEqual(tracker.getSessionUsage('s2'), { promptTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0 });
+
+  const contents: Content[] = [...history, { role: 'user', parts: [{ text: 'abcdefgh' }] }];
+  assert.equal(tracker.estimate('s1', contents.slice(0, 3)), null);
+  assert.equal(tracker.estimate('s1', [...contents, { role: 'user', parts: [{ text: 'abcdefgh' }] }]), 162);
+
+  tracker.invalidate('s1');
+  assert.equal(tracker.estimate('s1', contents), null);
+
+  tracker.startTurn();
+  assert.equal(tracker.getTurnUsage().requests, 0);
+  assert.equal(tracker.getSessionUsage('s1').requests, 2);
+});
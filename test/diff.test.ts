@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createUnifiedDiff } from '../src/utils/diff.js';
+
+test('unchanged content gives an empty diff', () => {
+  assert.equal(createUnifiedDiff('a.txt', 'a\nb\n', 'a\nb\n'), '');
+});
+
+test('changes get hunks with three lines of context', () => {
+  const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n';
+  const after = before.replace('5\n', 'five\n');
+  assert.equal(
+    createUnifiedDiff('n.txt', before, after),
+    ['--- a/n.txt', '+++ b/n.txt', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8'].join('\n')
+  );
+});
+
+test('distant changes get separate hunks', () => {
+  const lines = Array.from({ length: 20 }, (_, i) => String(i + 1));
+  const before = lines.join('\n') + '\n';
+  const after = before.replace('2\n', 'two\n').replace('19\n', 'nineteen\n');
+  const hunks = createUnifiedDiff('n.txt', before, after).split('\n').filter(line => line.startsWith('@@'));
+  assert.deepEqual(hunks, ['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+});
+
+test('new files diff against /dev/null', () => {
+  assert.equal(createUnifiedDiff('new.txt', null, 'x\n'), ['--- /dev/null', '+++ b/new.txt', '@@ -0,0 +1,1 @@', '+x'].join('\n'));
+});
+
+test('adding or removing a final newline is a change', () => {
+  assert.equal(
+    createUnifiedDiff('e.txt', 'a', 'a\n'),
+    ['--- a/e.txt', '+++ b/e.txt', '@@ -1,1 +1,1 @@', '-a', '\\ No newline at end of file', '+a'].join('\n')
+  );
+  assert.equal(
+    createUnifiedDiff('e.txt', 'a\nb\n', 'a\nb'),
+    ['--- a/e.txt', '+++ b/e.txt', '@@ -1,2 +1,2 @@', ' a', '-b', '+b', '\\ No newline at end of file'].join('\n')
+  );
+});
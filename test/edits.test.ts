@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyEdit, applyEdits } from '../src/agent/edits.js';
+
+const content = 'let a = 1;\nlet b = 1;\nlet a2 = 2;\n';
+
+test('a unique match is replaced', () => {
+  assert.deepEqual(applyEdit(content, { old_string: 'let b = 1;', new_string: 'let b = 3;' }), {
+    content: 'let a = 1;\nlet b = 3;\nlet a2 = 2;\n',
+  });
+});
+
+test('an ambiguous match fails with the lines it was found on', () => {
+  const outcome = applyEdit(content, { old_string: 'let a', new_string: 'const a' });
+  assert.match(outcome.error ?? '', /found 2 occurrences at lines 1, 3/);
+});
+
+test('replace_all and expected_occurrences replace every match', () => {
+  assert.equal(
+    applyEdit(content, { old_string: '= 1', new_string: '= 0', replace_all: true }).content,
+    'let a = 0;\nlet b = 0;\nlet a2 = 2;\n'
+  );
+  assert.equal(applyEdit(content, { old_string: '= 1', new_string: '= 0', expected_occurrences: 2 }).content?.includes('= 1'), false);
+  assert.match(
+    applyEdit(content, { old_string: '= 1', new_string: '= 0', expected_occurrences: 3 }).error ?? '',
+    /Expected 3 occurrence\(s\) of old_string but found 2 at line\(s\) 1, 2/
+  );
+});
+
+test('replacement text is inserted literally', () => {
+  assert.equal(applyEdit('x', { old_string: 'x', new_string: '$&$1' }).content, '$&$1');
+});
+
+test('a missing match points at the closest line', () => {
+  const outcome = applyEdit(content, { old_string: 'let b = 2;', new_string: '' });
+  assert.match(outcome.error ?? '', /Closest match \(\d+% similar\) at line 2:\n2: let b = 1;/);
+});
+
+test('edits apply in order and all fail together', () => {
+  assert.equal(
+    applyEdits('abc', [
+      { old_string: 'a', new_string: 'x' },
+      { old_string: 'xb', new_string: 'y' },
+    ]).content,
+    'yc'
+  );
+  assert.match(
+    applyEdits('abc', [
+      { old_string: 'a', new_string: 'x' },
+      { old_string: 'zzz', new_string: 'y' },
+    ]).error ?? '',
+    /^Edit 2 of 2 failed, no changes were made/
+  );
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { renderMarkdown, toTranscript } from '../src/agent/export.js';
+import { PermissionRecord, RecordedPart, Session } from '../src/types.js';
+
+function sessionWith(response: Record<string, unknown>, permission?: PermissionRecord): Session {
+  const responsePart: RecordedPart = { functionResponse: { name: 'run_command', response }, permission };
+  return {
+    id: 'session',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    messages: [
+      { role: 'user', parts: [{ text: 'Run the tests' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'run_command', args: { command: 'npm test' } } }] },
+      { role: 'user', parts: [responsePart] },
+    ],
+  };
+}
+
+function toolCall(session: Session) {
+  const entry = toTranscript(session).entries.find(entry => entry.type === 'tool_call');
+  assert.ok(entry?.type === 'tool_call');
+  return entry;
+}
+
+test('denials come from the recorded decision, not the error text', () => {
+  const call = toolCall(sessionWith({ error: 'Not today' }, { granted: false, source: 'policy' }));
+  assert.equal(call.status, 'denied');
+  assert.deepEqual(call.permission, { granted: false, source: 'policy' });
+
+  const failed = toolCall(sessionWith({ error: 'Permission denied: /etc/shadow' }));
+  assert.equal(failed.status, 'error');
+  assert.equal(failed.permission, undefined);
+});
+
+test('granted calls show who allowed them', () => {
+  const session = sessionWith({ result: 'ok' }, { granted: true, source: 'settings' });
+  assert.equal(toolCall(session).status, 'ok');
+  assert.match(renderMarkdown(toTranscript(session)), /Allowed by a settings rule\./);
+});
+
+test('process calls are summarized by their id', () => {
+  const session: Session = {
+    id: 'session',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    messages: [{ role: 'model', parts: [{ functionCall: { name: 'check_process', args: { id: 'p1' } } }] }],
+  };
+  assert.match(renderMarkdown(toTranscript(session)), /<code>check_process<\/code> p1/);
+});
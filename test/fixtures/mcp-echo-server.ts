@@ -0,0 +1,135 @@
+/**
+ * Minimal stdio MCP server for testing and trying out the MCP client without
+ * a real server. Offers `echo`, `add`, `fail`, `wait` (answers only when
+ * cancelled) and `cancelled` (lists the cancelled request ids), listed two
+ * per `tools/list` page. Run it with `npx tsx test/fixtures/mcp-echo-server.ts`.
+ */
+import * as readline from 'readline';
+
+interface Request {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+const PAGE_SIZE = 2;
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Return the given text unchanged.',
+    inputSchema: {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'fail',
+    description: 'Always fails with an error result.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'wait',
+    description: 'Never answers; the call has to be cancelled.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'cancelled',
+    description: 'List the ids of requests cancelled so far.',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+];
+
+const cancelled: Array<number | string> = [];
+
+function send(message: Record<string, unknown>): void {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+/** The result of a call, or null when it is never answered. */
+function callTool(name: unknown, args: Record<string, unknown>): Record<string, unknown> | null {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: String(args.text ?? '') }] };
+    case 'add':
+      return { content: [{ type: 'text', text: String(Number(args.a) + Number(args.b)) }] };
+    case 'fail':
+      return { content: [{ type: 'text', text: 'This tool always fails.' }], isError: true };
+    case 'wait':
+      return null;
+    case 'cancelled':
+      return { content: [{ type: 'text', text: JSON.stringify(cancelled) }] };
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+function listTools(cursor: unknown): Record<string, unknown> {
+  const start = typeof cursor === 'string' ? Number(cursor) : 0;
+  const end = start + PAGE_SIZE;
+  return { tools: TOOLS.slice(start, end), nextCursor: end < TOOLS.length ? String(end) : undefined };
+}
+
+function handle(request: Request): void {
+  if (request.id === undefined) {
+    const requestId = request.params?.requestId;
+    if (request.method === 'notifications/cancelled' && (typeof requestId === 'number' || typeof requestId === 'string')) {
+      cancelled.push(requestId);
+    }
+    return;
+  }
+  try {
+    switch (request.method) {
+      case 'initialize':
+        send({
+          id: request.id,
+          result: {
+            protocolVersion: request.params?.protocolVersion ?? '2025-06-18',
+            capabilities: { tools: {} },
+            serverInfo: { name: 'echo-fixture', version: '1.0.0' },
+          },
+        });
+        break;
+      case 'ping':
+        send({ id: request.id, result: {} });
+        break;
+      case 'tools/list':
+        send({ id: request.id, result: listTools(request.params?.cursor) });
+        break;
+      case 'tools/call': {
+        const args = (request.params?.arguments ?? {}) as Record<string, unknown>;
+        const result = callTool(request.params?.name, args);
+        if (result) {
+          send({ id: request.id, result });
+        }
+        break;
+      }
+      default:
+        send({ id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } });
+    }
+  } catch (err) {
+    send({ id: request.id, error: { code: -32603, message: err instanceof Error ? err.message : String(err) } });
+  }
+}
+
+const lines = readline.createInterface({ input: process.stdin });
+lines.on('line', line => {
+  if (line.trim()) {
+    handle(JSON.parse(line));
+  }
+});
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { escapeGlob, matchesGlob } from '../src/utils/glob.js';
+
+test('path globs stop at separators unless ** is used', () => {
+  assert.equal(matchesGlob('src/a.ts', 'src/*.ts'), true);
+  assert.equal(matchesGlob('src/a/b.ts', 'src/*.ts'), false);
+  assert.equal(matchesGlob('src/a/b.ts', 'src/**/*.ts'), true);
+  assert.equal(matchesGlob('src/b.ts', 'src/**/*.ts'), true);
+  assert.equal(matchesGlob('secrets/deep/key.pem', 'secrets/**'), true);
+  assert.equal(matchesGlob('a.md', '?.{md,txt}'), true);
+  assert.equal(matchesGlob('a.js', '?.{md,txt}'), false);
+});
+
+test('command globs cross separators', () => {
+  assert.equal(matchesGlob('rm -rf /tmp/x', 'rm *', { crossSeparators: true }), true);
+  assert.equal(matchesGlob('rm -rf /tmp/x', 'rm *'), false);
+  assert.equal(matchesGlob('echo rm -rf x', 'rm *', { crossSeparators: true }), false);
+});
+
+test('escaped patterns only match themselves', () => {
+  const pattern = escapeGlob('ls *.{ts,js}');
+  assert.equal(matchesGlob('ls *.{ts,js}', pattern, { crossSeparators: true }), true);
+  assert.equal(matchesGlob('ls a.ts', pattern, { crossSeparators: true }), false);
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, TestContext } from 'node:test';
+import { HistoryManager } from '../src/storage/history.js';
+
+function tempProject(t: TestContext): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  return projectDir;
+}
+
+test('a corrupt index is rebuilt while migrating legacy history', t => {
+  const projectDir = tempProject(t);
+  const existing = new HistoryManager(projectDir).createSession();
+  const sessionsDir = path.join(projectDir, '.gemini', 'sessions');
+  fs.writeFileSync(path.join(sessionsDir, 'index.json'), '{"sessions": [');
+  fs.writeFileSync(
+    path.join(projectDir, '.gemini', 'history.json'),
+    JSON.stringify({
+      sessions: [{ id: 'legacy', createdAt: '2025-01-01T00:00:00.000Z', messages: [{ role: 'user', parts: [{ text: 'Hi' }] }] }],
+    })
+  );
+  t.mock.method(console, 'warn', () => {});
+
+  const history = new HistoryManager(projectDir);
+  assert.deepEqual(history.listSessions().map(s => s.id).sort(), [existing.id, 'legacy'].sort());
+  assert.ok(fs.existsSync(path.join(projectDir, '.gemini', 'history.json.migrated')));
+});
+
+test('added messages reach the index when it is flushed', t => {
+  const projectDir = tempProject(t);
+  const history = new HistoryManager(projectDir);
+  const session = history.createSession();
+  history.addMessage({ role: 'user', parts: [{ text: 'Hello' }] });
+  history.addMessage({ role: 'model', parts: [{ text: 'Hi' }] });
+  assert.equal(new HistoryManager(projectDir).listSessions()[0].messageCount, 0);
+
+  history.flushIndex();
+  const [summary] = new HistoryManager(projectDir).listSessions();
+  assert.equal(summary.id, session.id);
+  assert.equal(summary.messageCount, 2);
+  assert.equal(summary.title, 'Hello');
+});
+
+test('a missing index is rebuilt from the session files', t => {
+  const projectDir = tempProject(t);
+  const history = new HistoryManager(projectDir);
+  const session = history.createSession();
+  history.addMessage({ role: 'user', parts: [{ text: 'Hello' }] });
+  history.flushIndex();
+  fs.rmSync(path.join(projectDir, '.gemini', 'sessions', 'index.json'));
+
+  const rebuilt = new HistoryManager(projectDir);
+  assert.deepEqual(rebuilt.listSessions().map(s => [s.id, s.title, s.messageCount]), [[session.id, 'Hello', 1]]);
+  assert.ok(fs.existsSync(path.join(projectDir, '.gemini', 'sessions', 'index.json')));
+});
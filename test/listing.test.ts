@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, TestContext } from 'node:test';
+import { listDirectory } from '../src/agent/listing.js';
+
+function project(t: TestContext, files: Record<string, string>): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'listing-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(projectDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, name), content);
+  }
+  return projectDir;
+}
+
+test('recursive listings draw a tree and skip ignored paths', t => {
+  const projectDir = project(t, {
+    '.gitignore': 'dist/\n',
+    'dist/app.js': '',
+    'src/main.ts': '',
+    'src/util/a.ts': '',
+    'README.md': '',
+    'notes.tmp': '',
+  });
+
+  const result = listDirectory(projectDir, { path: '.', recursive: true }, { ignore: ['*.tmp'] });
+
+  assert.equal(
+    result.output,
+    ['./', '├── .gitignore', '├── README.md', '└── src/', '    ├── main.ts', '    └── util/', '        └── a.ts'].join('\n')
+  );
+});
+
+test('directories below max_depth are marked as not expanded', t => {
+  const projectDir = project(t, { 'a/b/c.txt': '', 'a/d.txt': '' });
+
+  const result = listDirectory(projectDir, { path: '.', recursive: true, max_depth: 2 });
+
+  assert.equal(
+    result.output,
+    ['./', '└── a/', '    ├── b/ ...', '    └── d.txt', '[1 directory below max_depth 2 not expanded]'].join('\n')
+  );
+});
+
+test('listings stop at max_entries with a notice', t => {
+  const projectDir = project(t, { 'a.txt': '', 'b.txt': '', 'c.txt': '' });
+
+  const result = listDirectory(projectDir, { path: '.', max_entries: 2 });
+
+  assert.match(String(result.output), /^\.\/\n├── a\.txt\n└── b\.txt\n\[Listing stopped after 2 entries\./);
+});
+
+test('details show sizes and line counts', t => {
+  const projectDir = project(t, { 'a.txt': 'one\ntwo', 'b.bin': '\0\0' });
+
+  const result = listDirectory(projectDir, { path: '.', details: true });
+
+  assert.equal(result.output, ['./', '├── a.txt (7 B, 2 lines)', '└── b.bin (2 B, binary)'].join('\n'));
+});
+
+test('paths outside the project are refused', t => {
+  const projectDir = project(t, {});
+
+  assert.deepEqual(listDirectory(projectDir, { path: '..' }), { error: 'Path traversal not allowed' });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { after, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { McpClient, McpManager } from '../src/agent/mcp.js';
+import { INTERRUPTED_MESSAGE, McpServerConfig } from '../src/types.js';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const fixture: McpServerConfig = {
+  command: process.execPath,
+  args: ['--import', 'tsx', path.join('test', 'fixtures', 'mcp-echo-server.ts')],
+  timeout: 20,
+};
+
+const client = new McpClient('fixture', fixture, rootDir);
+after(() => client.close());
+
+test('connects and lists tools across pages', async () => {
+  await client.connect();
+  const tools = await client.listTools();
+  assert.deepEqual(
+    tools.map(tool => tool.name),
+    ['echo', 'add', 'fail', 'wait', 'cancelled']
+  );
+});
+
+test('calls tools and turns error results into errors', async () => {
+  assert.deepEqual(await client.callTool('add', { a: 2, b: 3 }), { output: '5' });
+  assert.deepEqual(await client.callTool('fail', {}), { error: 'This tool always fails.' });
+  await assert.rejects(client.callTool('missing', {}), /tools\/call failed: Unknown tool: missing/);
+});
+
+test('aborting a call cancels it on the server', async () => {
+  const controller = new AbortController();
+  const call = client.callTool('wait', {}, controller.signal);
+  controller.abort();
+  await assert.rejects(call, new RegExp(INTERRUPTED_MESSAGE));
+  const cancelled = await client.callTool('cancelled', {});
+  assert.equal(JSON.parse(cancelled.output ?? '[]').length, 1);
+});
+
+test('the manager exposes server tools as mcp__server__tool', async () => {
+  const manager = new McpManager(rootDir, { fixture: { ...fixture, readOnlyTools: ['echo'] } });
+  try {
+    const tools = await manager.start();
+    const echo = tools.find(tool => tool.declaration.name === 'mcp__fixture__echo');
+    assert.ok(echo);
+    assert.equal(echo.readOnly, true);
+    assert.deepEqual(await echo.execute({ text: 'hi' }, { projectDir: rootDir }), { output: 'hi' });
+    assert.equal(manager.getStatus()[0].tools.length, 5);
+  } finally {
+    manager.close();
+  }
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test } from 'node:test';
+import { Tool } from '@google/genai';
+import { Agent } from '../src/agent/index.js';
+import { createPlan, formatPlan, parsePlan, updatePlan } from '../src/agent/planning.js';
+import { ScriptedProvider } from '../src/agent/provider.js';
+import { HistoryManager } from '../src/storage/history.js';
+import { SettingsManager } from '../src/storage/settings.js';
+import { Plan } from '../src/types.js';
+
+function proposed(): Plan {
+  const plan = createPlan({
+    summary: 'Add retries',
+    steps: [{ title: 'Add maxRetries', details: 'ClientOptions.ts' }, { title: 'Retry in send' }],
+  });
+  assert.ok(typeof plan !== 'string');
+  return plan;
+}
+
+test('plans need a summary and titled steps', () => {
+  assert.equal(createPlan({ steps: [{ title: 'x' }] }), 'summary must be a non-empty string');
+  assert.equal(createPlan({ summary: 'x', steps: [] }), 'steps must contain at least one step');
+  assert.equal(createPlan({ summary: 'x', steps: [{ title: 'a' }, { title: ' ' }] }), 'steps[1].title must be a non-empty string');
+
+  const plan = proposed();
+  assert.equal(plan.status, 'proposed');
+  assert.deepEqual(plan.steps[0], { title: 'Add maxRetries', details: 'ClientOptions.ts', status: 'pending' });
+});
+
+test('updates validate the step and complete the plan once every step is finished', () => {
+  const plan: Plan = { ...proposed(), status: 'approved' };
+  assert.equal(updatePlan(plan, { step: 3, status: 'done' }), 'step must be between 1 and 2');
+  assert.equal(updatePlan(plan, { step: 1, status: 'pending' }), 'status must be "in_progress", "done" or "skipped"');
+
+  const first = updatePlan(plan, { step: 1, status: 'done' });
+  assert.ok(typeof first !== 'string');
+  assert.equal(first.status, 'approved');
+
+  const second = updatePlan(first, { step: 2, status: 'skipped', note: 'Already retried' });
+  assert.ok(typeof second !== 'string');
+  assert.equal(second.status, 'completed');
+  assert.equal(second.steps[1].note, 'Already retried');
+});
+
+test('an edited checklist is read back into the plan', () => {
+  const plan = updatePlan({ ...proposed(), status: 'approved' }, { step: 1, status: 'in_progress', note: 'Started' });
+  assert.ok(typeof plan !== 'string');
+  const text = formatPlan(plan);
+  assert.equal(
+    text,
+    ['# Add retries', '', '- [~] 1. Add maxRetries', '  ClientOptions.ts', '  Note: Started', '- [ ] 2. Retry in send'].join('\n')
+  );
+
+  const edited = parsePlan(`${text}\n- [x] 3. Document retries\n  README.md`, plan);
+  assert.ok(typeof edited !== 'string');
+  assert.deepEqual(
+    edited.steps.map(step => [step.title, step.status, step.details, step.note]),
+    [
+      ['Add maxRetries', 'in_progress', 'ClientOptions.ts', 'Started'],
+      ['Retry in send', 'pending', undefined, undefined],
+      ['Document retries', 'done', 'README.md', undefined],
+    ]
+  );
+  assert.equal(parsePlan('# Only a title', plan), 'The plan has no steps');
+});
+
+test('plan mode offers read-only tools and denies tools that change files', async t => {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'planning-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  const provider = new ScriptedProvider([
+    { functionCalls: [{ name: 'write_file', args: { path: 'a.txt', content: 'a' } }] },
+    { functionCalls: [{ name: 'submit_plan', args: { summary: 'Write a.txt', steps: [{ title: 'Write it' }] } }] },
+    { text: 'Plan submitted.' },
+  ]);
+  const history = new HistoryManager(projectDir);
+  history.createSession();
+  const agent = new Agent({
+    projectDir,
+    settings: new SettingsManager(projectDir),
+    history,
+    provider,
+    onPermissionPrompt: async () => ({ granted: true, alwaysAllow: false }),
+  });
+  agent.setPlanMode(true);
+
+  await agent.processMessage('Plan writing a.txt');
+
+  const tools = (provider.getRequests()[0].config?.tools ?? []) as Tool[];
+  const offered = tools.flatMap(tool => tool.functionDeclarations ?? []).map(decl => decl.name);
+  assert.ok(offered.includes('read_file'));
+  assert.ok(offered.includes('submit_plan'));
+  assert.ok(!offered.includes('write_file'));
+  assert.equal(fs.existsSync(path.join(projectDir, 'a.txt')), false);
+  assert.equal(agent.getPlan()?.status, 'proposed');
+
+  agent.approvePlan();
+  assert.equal(agent.isPlanMode(), false);
+  assert.equal(agent.getPlan()?.status, 'approved');
+});
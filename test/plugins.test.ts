@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test } from 'node:test';
+import { loadCustomTools } from '../src/agent/plugins.js';
+
+function projectWithTools(files: Record<string, string>): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-test-'));
+  const toolsDir = path.join(projectDir, '.gemini', 'tools');
+  fs.mkdirSync(toolsDir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(toolsDir, name), content);
+  }
+  return projectDir;
+}
+
+test('loads tool modules, factories and CommonJS exports', async t => {
+  const tool = (name: string) =>
+    `{ declaration: { name: '${name}', description: '' }, execute: async () => ({ output: '${name}' }) }`;
+  const projectDir = projectWithTools({
+    'a.ts': `export default ${tool('module_tool')};`,
+    'b.mjs': `export default () => [${tool('factory_tool')}];`,
+    'c.js': `module.exports = ${tool('commonjs_tool')};`,
+    'd.mjs': 'export default 42;',
+  });
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+
+  const loaded = await loadCustomTools(projectDir);
+  assert.deepEqual(
+    loaded.tools.map(tool => tool.declaration.name),
+    ['module_tool', 'factory_tool', 'commonjs_tool']
+  );
+  assert.equal(loaded.errors.length, 1);
+  assert.match(loaded.errors[0], /d\.mjs: default export must be a tool definition/);
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { runCommand, truncateOutput } from '../src/agent/processes.js';
+
+test('long command output is shortened as it arrives', async () => {
+  const script = "for (let i = 0; i < 200; i++) process.stdout.write(String(i % 10).repeat(1000));";
+  let streamed = '';
+  const outcome = await runCommand(`"${process.execPath}" -e "${script}"`, {
+    cwd: process.cwd(),
+    timeoutMs: 20000,
+    onOutput: chunk => {
+      streamed += chunk;
+    },
+  });
+  assert.equal(outcome.exitCode, 0);
+  assert.equal(streamed.length, 200000);
+  assert.equal(outcome.output, truncateOutput(streamed));
+});
+
+test('short command output is kept as is', async () => {
+  const outcome = await runCommand('echo hello', { cwd: process.cwd(), timeoutMs: 20000 });
+  assert.equal(outcome.output, 'hello\n');
+});
+
+test('characters split across output chunks are decoded whole', async () => {
+  const script = "const b = Buffer.from('é😀'); process.stdout.write(b.subarray(0, 3)); setTimeout(() => process.stdout.write(b.subarray(3)), 50);";
+  let streamed = '';
+  const outcome = await runCommand(`"${process.execPath}" -e "${script}"`, {
+    cwd: process.cwd(),
+    timeoutMs: 20000,
+    onOutput: chunk => {
+      streamed += chunk;
+    },
+  });
+  assert.equal(streamed, 'é😀');
+  assert.equal(outcome.output, 'é😀');
+});
+
+test('shortened output does not split surrogate pairs', () => {
+  const output = '😀'.repeat(50);
+  const shortened = truncateOutput(output, 21);
+  assert.doesNotMatch(shortened, /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/);
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_RETRY_POLICY, TimeoutError, classifyError, getRetryAfterMs, streamWithRetry } from '../src/agent/retry.js';
+
+const policy = { ...DEFAULT_RETRY_POLICY, maxRetries: 0, timeoutMs: 50 };
+
+interface FakeStream {
+  open: (signal: AbortSignal) => Promise<AsyncIterable<string>>;
+  /** The signal the request was opened with. */
+  signal: () => AbortSignal | undefined;
+  closed: () => boolean;
+}
+
+/** A stream that yields `chunks` and then never produces another one. */
+function stallingStream(chunks: string[]): FakeStream {
+  let requestSignal: AbortSignal | undefined;
+  let closed = false;
+  const stream: AsyncIterable<string> = {
+    [Symbol.asyncIterator]() {
+      let index = 0;
+      return {
+        next: () =>
+          index < chunks.length
+            ? Promise.resolve({ done: false, value: chunks[index++] })
+            : new Promise<IteratorResult<string>>(() => {}),
+        return: async () => {
+          closed = true;
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+  return {
+    open: async signal => {
+      requestSignal = signal;
+      return stream;
+    },
+    signal: () => requestSignal,
+    closed: () => closed,
+  };
+}
+
+test('a stalled stream aborts its request and is closed', async () => {
+  const fake = stallingStream(['a']);
+  const received: string[] = [];
+  await assert.rejects(async () => {
+    for await (const chunk of streamWithRetry(fake.open, { policy })) {
+      received.push(chunk);
+    }
+  }, { name: 'TimeoutError' });
+  assert.deepEqual(received, ['a']);
+  assert.equal(fake.signal()?.aborted, true);
+  assert.equal(fake.closed(), true);
+});
+
+test('aborting the signal mid-stream aborts the request and closes the stream', async () => {
+  const fake = stallingStream(['a']);
+  const controller = new AbortController();
+  const reason = new Error('interrupted');
+  await assert.rejects(async () => {
+    for await (const _ of streamWithRetry(fake.open, { policy: { ...policy, timeoutMs: 60_000 }, signal: controller.signal })) {
+      controller.abort(reason);
+    }
+  }, reason);
+  assert.equal(fake.signal()?.aborted, true);
+  assert.equal(fake.closed(), true);
+});
+
+test('stopping early aborts the request', async () => {
+  const fake = stallingStream(['a', 'b']);
+  for await (const _ of streamWithRetry(fake.open, { policy })) {
+    break;
+  }
+  assert.equal(fake.signal()?.aborted, true);
+  assert.equal(fake.closed(), true);
+});
+
+test('a completed stream yields every chunk', async () => {
+  async function* chunks() {
+    yield 'a';
+    yield 'b';
+  }
+  const received: string[] = [];
+  for await (const chunk of streamWithRetry(async () => chunks(), { policy })) {
+    received.push(chunk);
+  }
+  assert.deepEqual(received, ['a', 'b']);
+});
+
+test('errors are classified from their status, message or cause', () => {
+  assert.equal(classifyError(new TimeoutError('slow')), 'timeout');
+  assert.equal(classifyError({ status: 429 }), 'rate_limit');
+  assert.equal(classifyError({ error: { code: 503 } }), 'server_error');
+  assert.equal(classifyError(new Error('got status: 500 Internal Server Error')), 'server_error');
+  assert.equal(classifyError(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } })), 'network');
+  assert.equal(classifyError({ status: 400, message: 'Bad request' }), null);
+  assert.equal(classifyError('not an error'), null);
+  assert.equal(classifyError(null), null);
+});
+
+test('retry delays come from headers or the error message', () => {
+  assert.equal(getRetryAfterMs({ headers: new Headers({ 'retry-after': '3' }) }), 3000);
+  assert.equal(getRetryAfterMs({ response: { headers: new Headers({ 'retry-after': '1.5' }) } }), 1500);
+  assert.equal(getRetryAfterMs(new Error('{"retryDelay": "38s"}')), 38000);
+  assert.equal(getRetryAfterMs({ headers: { get: 'not a function' } }), undefined);
+  assert.equal(getRetryAfterMs(undefined), undefined);
+});
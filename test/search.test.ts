@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, TestContext } from 'node:test';
+import { globFiles, grepFiles } from '../src/agent/search.js';
+import { walk } from '../src/utils/walk.js';
+
+function project(t: TestContext, files: Record<string, string>): string {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(projectDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, name), content);
+  }
+  return projectDir;
+}
+
+test('walk honours nested .gitignore files, negations and extra patterns', t => {
+  const projectDir = project(t, {
+    '.gitignore': 'build/\n*.log\n!keep.log\n',
+    'src/.gitignore': 'generated.ts\n',
+    'src/app.ts': '',
+    'src/generated.ts': '',
+    'build/out.js': '',
+    'debug.log': '',
+    'keep.log': '',
+    'notes.tmp': '',
+    '.git/HEAD': '',
+    '.gemini/sessions/s.json': '',
+    '.gemini/AGENT.md': '',
+  });
+
+  const files = [...walk(projectDir, { ignore: ['*.tmp'] })].filter(entry => !entry.isDir).map(entry => entry.relPath);
+
+  assert.deepEqual(files, ['.gemini/AGENT.md', '.gitignore', 'keep.log', 'src/.gitignore', 'src/app.ts']);
+});
+
+test('walk from a subdirectory applies the .gitignore files above it', t => {
+  const projectDir = project(t, {
+    '.gitignore': '*.log\n',
+    'src/a.ts': '',
+    'src/a.log': '',
+  });
+
+  const files = [...walk(projectDir, { start: 'src' })].map(entry => entry.relPath);
+
+  assert.deepEqual(files, ['src/a.ts']);
+});
+
+test('grep_files reports matches with context and skips binary files', t => {
+  const projectDir = project(t, {
+    'a.txt': 'one\ntwo\nthree\n',
+    'b.bin': 'two\0',
+  });
+
+  const result = grepFiles(projectDir, { pattern: 'two', context: 1 });
+
+  assert.equal(result.output, 'a.txt-1- one\na.txt:2: two\na.txt-3- three\n[1 match in 1 file]');
+});
+
+test('search tools leave out files matching read_file deny patterns', t => {
+  const projectDir = project(t, {
+    '.env': 'TOKEN=secret',
+    'secrets/key.txt': 'TOKEN=secret',
+    'src/config.ts': 'const TOKEN = process.env.TOKEN;',
+  });
+  const options = { denied: ['.env', 'secrets/**'] };
+
+  const grep = grepFiles(projectDir, { pattern: 'TOKEN', path: '.' }, options);
+  assert.equal(grep.output, 'src/config.ts:1: const TOKEN = process.env.TOKEN;\n[1 match in 1 file]');
+
+  const glob = globFiles(projectDir, { pattern: '**' }, options);
+  assert.equal(glob.output, 'src/config.ts\n[1 file]');
+
+  const single = grepFiles(projectDir, { pattern: 'TOKEN', path: 'secrets/key.txt' }, options);
+  assert.equal(single.output, 'No matches found.');
+});
+
+test('glob_files patterns are relative to the search path and results to the project', t => {
+  const projectDir = project(t, {
+    'src/a.ts': '',
+    'src/lib/b.ts': '',
+    'test/c.ts': '',
+  });
+
+  const result = globFiles(projectDir, { pattern: '**/*.ts', path: 'src', max_results: 1 });
+
+  assert.equal(result.output, 'src/a.ts\n[Stopped after 1 files. Narrow the pattern or raise max_results.]');
+});
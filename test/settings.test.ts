@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { test, TestContext } from 'node:test';
+import { SettingsManager } from '../src/storage/settings.js';
+
+test('reset clears permissions and keeps the other settings', t => {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  fs.mkdirSync(path.join(projectDir, '.gemini'));
+  fs.writeFileSync(
+    path.join(projectDir, '.gemini', 'settings.json'),
+    JSON.stringify({
+      model: 'gemini-2.5-pro',
+      permissions: { write_file: { mode: 'allow' } },
+      ignore: ['*.log'],
+      budget: { sessionCost: 1 },
+      retry: { maxRetries: 2 },
+    })
+  );
+
+  new SettingsManager(projectDir).reset();
+
+  const settings = new SettingsManager(projectDir);
+  assert.deepEqual(settings.getSettings().permissions, {});
+  assert.equal(settings.getModel(), 'gemini-2.5-pro');
+  assert.deepEqual(settings.getIgnorePatterns(), ['*.log']);
+  assert.deepEqual(settings.getBudget(), { sessionCost: 1 });
+  assert.deepEqual(settings.getRetrySettings(), { maxRetries: 2 });
+});
+
+function settingsWith(t: TestContext, permissions: Record<string, unknown>): SettingsManager {
+  const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-test-'));
+  t.after(() => fs.rmSync(projectDir, { recursive: true, force: true }));
+  fs.mkdirSync(path.join(projectDir, '.gemini'));
+  fs.writeFileSync(path.join(projectDir, '.gemini', 'settings.json'), JSON.stringify({ model: 'm', permissions }));
+  return new SettingsManager(projectDir);
+}
+
+test('deny patterns reach commands behind redirections and inside substitutions', t => {
+  const settings = settingsWith(t, { run_command: { mode: 'allow', denied: ['rm *'] } });
+  const evaluate = (value: string) => settings.evaluate('run_command', { kind: 'command', value });
+  assert.equal(evaluate('rm -rf x'), 'deny');
+  assert.equal(evaluate('cat a > b; rm -rf x'), 'deny');
+  assert.equal(evaluate('echo `rm -rf x`'), 'deny');
+  assert.equal(evaluate('echo $(rm -rf x)'), 'deny');
+  assert.equal(evaluate('ls && rm -rf x'), 'deny');
+  assert.equal(evaluate('echo $(rm -rf x'), 'ask');
+  assert.equal(evaluate('ls > files.txt'), 'allow');
+});
+
+test('allow patterns must match every command and never allow redirections', t => {
+  const settings = settingsWith(t, { run_command: { mode: 'ask', allowed: ['mvn test*'] } });
+  const evaluate = (value: string) => settings.evaluate('run_command', { kind: 'command', value });
+  assert.equal(evaluate('mvn test -q'), 'allow');
+  assert.equal(evaluate('mvn test && rm -rf ~'), 'ask');
+  assert.equal(evaluate('mvn test > out.txt'), 'ask');
+});
+
+test('path deny patterns win over allow mode', t => {
+  const settings = settingsWith(t, { read_file: { mode: 'allow', denied: ['.env', 'secrets/**'] } });
+  assert.equal(settings.evaluate('read_file', { kind: 'path', value: 'secrets/a/key' }), 'deny');
+  assert.equal(settings.evaluate('read_file', { kind: 'path', value: '.env' }), 'deny');
+  assert.equal(settings.evaluate('read_file', { kind: 'path', value: 'src/index.ts' }), 'allow');
+});
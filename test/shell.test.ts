@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isSimpleCommand, listCommands, splitCommand } from '../src/utils/shell.js';
+
+test('splitCommand splits on control operators', () => {
+  assert.deepEqual(splitCommand('mvn test && rm -rf ~; ls | wc -l || true'), ['mvn test', 'rm -rf ~', 'ls', 'wc -l', 'true']);
+  assert.deepEqual(splitCommand('npm test'), ['npm test']);
+});
+
+test('splitCommand gives up on substitution and redirection', () => {
+  assert.equal(splitCommand('cat a > b; rm -rf x'), null);
+  assert.equal(splitCommand('echo `rm -rf x`'), null);
+  assert.equal(splitCommand('echo $(rm -rf x)'), null);
+  assert.equal(isSimpleCommand('cat < a'), false);
+  assert.equal(isSimpleCommand('npm test'), true);
+});
+
+test('listCommands splits around redirections', () => {
+  assert.deepEqual(listCommands('cat a > b; rm -rf x'), ['cat a > b', 'cat a', 'rm -rf x']);
+  assert.deepEqual(listCommands('rm -rf x 2>>log'), ['rm -rf x 2>>log', 'rm -rf x']);
+});
+
+test('listCommands includes substitution bodies, nested too', () => {
+  assert.ok(listCommands('echo `rm -rf x`')?.includes('rm -rf x'));
+  assert.ok(listCommands('echo $(rm -rf x)')?.includes('rm -rf x'));
+  assert.ok(listCommands('echo $(cat $(rm -rf x))')?.includes('rm -rf x'));
+  assert.ok(listCommands('diff <(rm -rf x) b')?.includes('rm -rf x'));
+});
+
+test('listCommands returns null for unclosed substitutions', () => {
+  assert.equal(listCommands('echo `rm -rf x'), null);
+  assert.equal(listCommands('echo $(rm -rf x'), null);
+});
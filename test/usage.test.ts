@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  checkBudget,
+  emptyTotals,
+  estimateCost,
+  formatCost,
+  getModelPrice,
+  groupUsage,
+  sumUsage,
+  toUsageRecord,
+} from '../src/agent/usage.js';
+
+test('usage records count thinking as output and default the total', () => {
+  const record = toUsageRecord(
+    { promptTokenCount: 1000, cachedContentTokenCount: 400, candidatesTokenCount: 200, thoughtsTokenCount: 50 },
+    'models/gemini-2.5-pro',
+    'turn',
+    2
+  );
+  assert.equal(record.model, 'gemini-2.5-pro');
+  assert.equal(record.totalTokens, 1250);
+  assert.equal(record.hop, 2);
+});
+
+test('prices match versioned models by prefix and settings override them', () => {
+  assert.deepEqual(getModelPrice('gemini-2.5-flash-lite-001'), { input: 0.1, output: 0.4, cachedInput: 0.01 });
+  assert.deepEqual(getModelPrice('gemini-2.5-pro', { 'gemini-2.5': { input: 1, output: 2 } }), { input: 1, output: 2 });
+  assert.equal(getModelPrice('unknown-model'), undefined);
+});
+
+test('cached input is billed at the cached rate', () => {
+  const record = toUsageRecord(
+    { promptTokenCount: 1_000_000, cachedContentTokenCount: 400_000, candidatesTokenCount: 100_000, thoughtsTokenCount: 100_000 },
+    'gemini-2.5-pro',
+    'turn'
+  );
+  // 600k * 1.25 + 400k * 0.125 + 200k * 10, per million.
+  assert.equal(estimateCost(record, getModelPrice('gemini-2.5-pro')!), 0.75 + 0.05 + 2);
+});
+
+test('sums add tokens and cost and count requests without a price', () => {
+  const records = [
+    toUsageRecord({ promptTokenCount: 1_000_000, candidatesTokenCount: 0 }, 'gemini-2.0-flash', 'turn', 1),
+    toUsageRecord({ promptTokenCount: 0, candidatesTokenCount: 1_000_000 }, 'gemini-2.0-flash', 'compaction'),
+    toUsageRecord({ promptTokenCount: 10, candidatesTokenCount: 5 }, 'local-model', 'turn', 2),
+  ];
+
+  const totals = sumUsage(records);
+  assert.equal(totals.calls, 3);
+  assert.equal(totals.promptTokens, 1_000_010);
+  assert.equal(totals.outputTokens, 1_000_005);
+  assert.equal(totals.totalTokens, 2_000_015);
+  assert.ok(Math.abs(totals.cost - 0.5) < 1e-9);
+  assert.equal(totals.unpricedCalls, 1);
+
+  const byPurpose = groupUsage(records, record => record.purpose);
+  assert.deepEqual([...byPurpose.keys()], ['turn', 'compaction']);
+  assert.equal(byPurpose.get('turn')?.calls, 2);
+  assert.ok(Math.abs((byPurpose.get('compaction')?.cost ?? 0) - 0.4) < 1e-9);
+});
+
+test('budgets stop at the first limit reached', () => {
+  const session = { ...emptyTotals(), totalTokens: 5000, cost: 0.2 };
+  const today = { ...emptyTotals(), cost: 1.5 };
+
+  assert.equal(checkBudget({}, session, today), null);
+  assert.equal(checkBudget({ sessionTokens: 5001, sessionCost: 0.3, dailyCost: 2 }, session, today), null);
+  assert.match(checkBudget({ sessionTokens: 5000, sessionCost: 0.1 }, session, today) ?? '', /budget\.sessionTokens/);
+  assert.match(checkBudget({ sessionCost: 0.2, dailyCost: 1 }, session, today) ?? '', /budget\.sessionCost/);
+  assert.equal(
+    checkBudget({ dailyCost: 1 }, session, today),
+    'Stopped: this project cost an estimated $1.50 today, reaching the daily budget of $1.00 (budget.dailyCost).'
+  );
+});
+
+test('small costs keep four decimals', () => {
+  assert.equal(formatCost(0.00123), '$0.0012');
+  assert.equal(formatCost(0), '$0.00');
+  assert.equal(formatCost(12.345), '$12.35');
+});